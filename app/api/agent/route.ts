@@ -1,17 +1,6 @@
-import { settlePayment, facilitator } from "thirdweb/x402";
-import { createThirdwebClient } from "thirdweb";
-import { avalancheFuji } from "thirdweb/chains";
-import { USDC_FUJI_ADDRESS, AGENT_AUTHORIZATION } from "@/lib/constants";
+import { ROUTE_PRICING, toX402Pricing } from "@/lib/pricing";
 import { parseRequestedToken } from "@/lib/agent-authorization";
-
-const client = createThirdwebClient({
-  secretKey: process.env.THIRDWEB_SECRET_KEY!,
-});
-
-const thirdwebFacilitator = facilitator({
-  client,
-  serverWalletAddress: process.env.THIRDWEB_SERVER_WALLET_ADDRESS!,
-});
+import { withX402 } from "@/lib/x402";
 
 // CoinGecko ID mapping
 const COINGECKO_IDS: Record<string, string> = {
@@ -67,91 +56,20 @@ async function fetchTokenPrice(symbol: string) {
   }
 }
 
-export async function POST(request: Request) {
-  try {
-    // Clone request to read body multiple times
-    const clonedRequest = request.clone();
-    const body = await clonedRequest.json();
-    const { message } = body;
-
-    if (!message) {
-      return Response.json({ error: "Message is required" }, { status: 400 });
-    }
-
-    // Parse requested token first
-    const requestedToken = parseRequestedToken(message);
-    if (!requestedToken) {
-      return Response.json({
-        success: false,
-        agentResponse: "I couldn't identify a cryptocurrency. Try ETH, BTC, AVAX, etc.",
-        serviceUsed: false,
-      });
-    }
-
-    const serviceCost = AGENT_AUTHORIZATION.SERVICE_COST;
-    const paymentData = request.headers.get("x-payment");
-    const resourceUrl = new URL(request.url).href;
-
-    // STEP 1: If no payment, return 402 to trigger x402 flow
-    if (!paymentData) {
-      console.log("No payment data, returning 402");
-      const result = await settlePayment({
-        resourceUrl,
-        method: "POST",
-        paymentData: null,
-        payTo: process.env.MERCHANT_WALLET_ADDRESS!,
-        network: avalancheFuji,
-        price: {
-          amount: String(serviceCost), // $0.02 per service call
-          asset: {
-            address: USDC_FUJI_ADDRESS,
-          },
-        },
-        facilitator: thirdwebFacilitator,
-      });
-
-      // Return 402 Payment Required
-      if (result.status !== 200) {
-        return Response.json(result.responseBody, {
-          status: result.status,
-          headers: result.responseHeaders,
-        });
-      }
-      return Response.json({ error: "Unexpected state" }, { status: 500 });
-    }
-
-    // STEP 2: Payment exists, settle it
-    console.log("Payment data received, settling payment");
-    const result = await settlePayment({
-      resourceUrl,
-      method: "POST",
-      paymentData,
-      payTo: process.env.MERCHANT_WALLET_ADDRESS!,
-      network: avalancheFuji,
-      price: {
-        amount: String(serviceCost),
-        asset: {
-          address: USDC_FUJI_ADDRESS,
-        },
-      },
-      facilitator: thirdwebFacilitator,
-    });
-
-    if (result.status !== 200) {
-      console.error("Payment settlement failed:", result.responseBody);
-      return Response.json(result.responseBody, {
-        status: result.status,
-        headers: result.responseHeaders,
-      });
-    }
+const priceService = withX402(
+  async (request) => {
+    const { message } = await request.json();
+    const requestedToken = parseRequestedToken(message)!;
 
-    // STEP 3: Payment successful, fetch the price data
-    console.log(`Payment settled, fetching price for ${requestedToken}`);
+    // Payment verified, fetch the price data before settling
+    console.log(`Payment verified, fetching price for ${requestedToken}`);
     const priceData = await fetchTokenPrice(requestedToken);
 
     if (!priceData) {
+      // Error responses are not settled, the agent is not charged
       return Response.json({
         error: `Could not fetch price for ${requestedToken}`,
+        charged: false,
       }, { status: 500 });
     }
 
@@ -166,10 +84,37 @@ export async function POST(request: Request) {
       agentResponse: `**${priceData.symbol}** ${changeEmoji}\n\nPrice: ${priceStr}\n24h Change: ${priceData.change24h >= 0 ? '+' : ''}${priceData.change24h}%`,
       priceData,
       serviceUsed: true,
-      cost: serviceCost,
+      cost: ROUTE_PRICING.AGENT.amount,
+      // Settled by withX402 once this response is returned
       paymentSettled: true,
       timestamp: new Date().toISOString(),
     });
+  },
+  toX402Pricing(ROUTE_PRICING.AGENT)
+);
+
+export async function POST(request: Request) {
+  try {
+    // Clone request so the paid handler can read the body again
+    const clonedRequest = request.clone();
+    const body = await clonedRequest.json();
+    const { message } = body;
+
+    if (!message) {
+      return Response.json({ error: "Message is required" }, { status: 400 });
+    }
+
+    // Parse requested token before asking for payment
+    const requestedToken = parseRequestedToken(message);
+    if (!requestedToken) {
+      return Response.json({
+        success: false,
+        agentResponse: "I couldn't identify a cryptocurrency. Try ETH, BTC, AVAX, etc.",
+        serviceUsed: false,
+      });
+    }
+
+    return priceService(request);
   } catch (error) {
     console.error("Agent error:", error);
     return Response.json(
@@ -178,4 +123,3 @@ export async function POST(request: Request) {
     );
   }
 }
-
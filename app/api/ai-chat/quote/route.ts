@@ -0,0 +1,31 @@
+import { resolveChatModel } from "@/lib/pricing";
+import { validateChatRequest, contextFromHistory } from "@/lib/chat-context";
+import { quoteChat } from "@/lib/chat-quote";
+import { getTokenCounter } from "@/lib/tokenizer";
+
+// Free pre-flight quote: estimated prompt tokens, cost range and recommended maxValue for a message
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    const validationError = validateChatRequest(body);
+    if (validationError) {
+      return Response.json({ error: validationError }, { status: 400 });
+    }
+
+    const model = resolveChatModel(body.model)!;
+    const quote = await quoteChat(
+      body.message,
+      contextFromHistory(body.history, await getTokenCounter(model.id)),
+      model,
+      { maxCost: body.maxCost, system: body.system }
+    );
+    return Response.json(quote);
+  } catch (error) {
+    console.error("AI Chat quote error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
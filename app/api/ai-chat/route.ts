@@ -1,106 +1,240 @@
-import { settlePayment, facilitator } from "thirdweb/x402";
-import { createThirdwebClient } from "thirdweb";
-import { avalancheFuji } from "thirdweb/chains";
-import { USDC_FUJI_ADDRESS, OPENROUTER_CONFIG, TOKEN_PRICING } from "@/lib/constants";
-import { calculateTokenCost, parseOpenRouterUsage, formatUSDCShort, estimateTokens } from "@/lib/token-pricing";
-
-const client = createThirdwebClient({
-  secretKey: process.env.THIRDWEB_SECRET_KEY!,
-});
-
-const thirdwebFacilitator = facilitator({
-  client,
-  serverWalletAddress: process.env.THIRDWEB_SERVER_WALLET_ADDRESS!,
-});
-
-interface OpenRouterResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-  usage?: {
-    prompt_tokens?: number;
-    completion_tokens?: number;
-    total_tokens?: number;
+import { ROUTE_PRICING, toX402Pricing, resolveChatModel, billedChatModel } from "@/lib/pricing";
+import type { ChatModelPricing } from "@/lib/pricing";
+import { calculateTokenCost, itemizeTokenCost, formatUSDCShort } from "@/lib/token-pricing";
+import { getTokenCounter } from "@/lib/tokenizer";
+import type { TokenCounter } from "@/lib/tokenizer";
+import { withX402, paymentRequiredResponse } from "@/lib/x402";
+import type { PaymentContext } from "@/lib/x402";
+import { encodeSSE } from "@/lib/sse";
+import { getLLMProvider } from "@/lib/llm";
+import { toProviderError, startStream } from "@/lib/llm-provider";
+import type { ChatCompletionRequest, ChatCompletionUsage, ChatStreamEvent } from "@/lib/llm-provider";
+import { validateChatRequest, contextFromHistory, splitContextCost } from "@/lib/chat-context";
+import { quoteChat } from "@/lib/chat-quote";
+import type { ChatQuote } from "@/lib/chat-quote";
+
+/**
+ * Tokenizer the billed token counts came from, returned so charges can be explained
+ * Usage reported by the provider takes precedence over local counting
+ */
+function tokenizerUsed(counter: TokenCounter, reportedUsage: boolean) {
+  return reportedUsage
+    ? { name: "provider-usage", exact: true }
+    : { name: counter.name, exact: counter.exact };
+}
+
+/**
+ * Cost breakdown: how much came from the conversation context (and system prompt) vs the new message
+ */
+function costBreakdown(cost: number, contextTokens: number, model: ChatModelPricing) {
+  const split = splitContextCost(cost, contextTokens, model);
+  return {
+    context: split.context,
+    message: split.message,
+    formattedContext: formatUSDCShort(split.context),
+    formattedMessage: formatUSDCShort(split.message),
   };
 }
 
-export async function POST(request: Request) {
-  try {
-    const clonedRequest = request.clone();
-    const body = await clonedRequest.json();
-    const { message } = body;
+/**
+ * Stream the LLM completion to the client as server-sent events
+ *
+ * - token: each chunk with the running token count and cost
+ * - done: final response, tokens and settled cost, with the payment receipt
+ * - error: upstream or settlement failure
+ *
+ * The stream is cut off once the running cost reaches the upto cap,
+ * and the final amount is settled when it closes.
+ *
+ * Tradeoff: tokens reach the client before the payment settles, so unlike the non-streaming
+ * path the response can't be withheld on a settlement failure. The error event is then sent
+ * with unpaid: true and the client drops the partial answer instead of keeping it.
+ * Settlement also happens after the response headers are sent, so there is no X-PAYMENT-RESPONSE
+ * header: the receipt and its transaction come in the done event instead.
+ */
+function streamChat(
+  events: AsyncIterator<ChatStreamEvent>,
+  answeredBy: { provider: string; model: string },
+  quote: ChatQuote,
+  model: ChatModelPricing,
+  counter: TokenCounter,
+  payment: PaymentContext,
+  abort: AbortController
+): Response {
+  // Cap authorized for this message, including its context
+  const maxAmount = Number(payment.amount);
+  const { promptTokens: inputTokens, contextTokens, systemTokens } = quote;
 
-    if (!message) {
-      return Response.json({ error: "Message is required" }, { status: 400 });
-    }
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encodeSSE(event, data));
+        } catch {
+          // Client disconnected, keep going so the consumed tokens are settled
+        }
+      };
 
-    const paymentData = request.headers.get("x-payment");
-    const resourceUrl = new URL(request.url).href;
-
-    // STEP 1: If no payment, return 402 with MAX price ($0.50) upfront
-    // User must authorize BEFORE we call OpenRouter
-    if (!paymentData) {
-      const result = await settlePayment({
-        resourceUrl,
-        method: "POST",
-        paymentData: null,
-        payTo: process.env.MERCHANT_WALLET_ADDRESS!,
-        network: avalancheFuji,
-        scheme: "upto", // Variable pricing - user authorizes MAX, we charge actual
-        price: {
-          amount: String(TOKEN_PRICING.MAX_CHAT_PAYMENT), // $0.50 max cap
-          asset: {
-            address: USDC_FUJI_ADDRESS,
-          },
-        },
-        facilitator: thirdwebFacilitator,
-      });
+      let content = "";
+      let usage: ChatCompletionUsage | null = null;
+      let capped = false;
+      let upstreamError: string | null = null;
+
+      try {
+        while (!capped) {
+          const next = await events.next();
+          if (next.done) break;
+          const event = next.value;
+          if (event.type === "usage") {
+            usage = event.usage;
+            continue;
+          }
+          if (event.type !== "delta") continue;
+          content += event.content;
+
+          const outputTokens = counter.count(content);
+          const cost = Math.min(calculateTokenCost(inputTokens, outputTokens, model), maxAmount);
+          send("token", {
+            content: event.content,
+            tokens: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, contextTokens, systemTokens },
+            cost,
+            formattedCost: formatUSDCShort(cost),
+          });
+
+          // Stop at the max cap, the user has not authorized more
+          if (cost >= maxAmount) {
+            capped = true;
+            abort.abort();
+          }
+        }
+      } catch (error) {
+        if (!capped) {
+          const providerError = toProviderError(answeredBy.provider, error);
+          console.error(`LLM stream error (${providerError.provider}, ${providerError.code}):`, providerError.message);
+          upstreamError = "AI response stream was interrupted";
+        }
+      }
 
-      // This will return 402 Payment Required
+      // Nothing was generated, nothing to charge
+      if (!content) {
+        send("error", { error: upstreamError ?? "No response generated" });
+        controller.close();
+        return;
+      }
+
+      // Prefer reported usage, estimate if the model doesn't return it (or the stream was cut off)
+      const reported = usage as ChatCompletionUsage | null;
+      const useReported = reported !== null && !capped;
+      const outputTokens = counter.count(content);
+      const tokens: ChatCompletionUsage = useReported
+        ? reported
+        : {
+          inputTokens,
+          outputTokens,
+          totalTokens: inputTokens + outputTokens,
+        };
+      const itemization = itemizeTokenCost(tokens.inputTokens, tokens.outputTokens, model, maxAmount);
+      const actualCost = itemization.total;
+
+      // Settle the final amount now that the stream is closed
+      const result = await payment.settle(actualCost, itemization);
       if (result.status !== 200) {
-        return Response.json(result.responseBody, {
-          status: result.status,
-          headers: result.responseHeaders,
-        });
+        console.error("Chat stream settlement failed:", result.responseBody);
+        send("error", { error: "Payment settlement failed", unpaid: true });
+        controller.close();
+        return;
       }
-      // This shouldn't happen (no payment data means 402), but handle it
-      return Response.json({ error: "Unexpected state" }, { status: 500 });
-    }
 
-    // STEP 2: Payment exists! User has authorized up to $0.50
-    // NOW we can safely call OpenRouter
-    const origin = request.headers.get("origin") || request.headers.get("referer") || "https://x402-demo.vercel.app";
-    const openRouterResponse = await fetch(OPENROUTER_CONFIG.API_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": origin,
-        "X-Title": "x402 AI Chat Demo",
-      },
-      body: JSON.stringify({
-        model: OPENROUTER_CONFIG.FREE_MODEL,
-        messages: [{ role: "user", content: message }],
-      }),
-    });
+      send("done", {
+        response: content,
+        tokens: { ...tokens, contextTokens, systemTokens },
+        cost: actualCost,
+        formattedCost: formatUSDCShort(actualCost),
+        costBreakdown: costBreakdown(actualCost, systemTokens + contextTokens, model),
+        itemization,
+        model: model.id,
+        provider: answeredBy,
+        tokenizer: tokenizerUsed(counter, useReported),
+        maxAuthorized: maxAmount,
+        capped,
+        interrupted: upstreamError !== null,
+        transaction: payment.receipt?.transaction,
+        receipt: payment.receipt,
+        timestamp: new Date().toISOString(),
+      });
+      controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// Variable pricing - user authorizes the max cap upfront, we charge actual
+const paidChat = withX402(
+  async (request, payment) => {
+    const body = await request.json();
+    const { message, history, system, temperature, stream } = body;
+    const model = resolveChatModel(body.model)!;
+    const counter = await getTokenCounter(model.id);
+    const context = contextFromHistory(history, counter);
+    // Same quote as the upto cap, max_tokens may be lowered to fit the client's maxCost
+    const quote = await quoteChat(message, context, model, { maxCost: body.maxCost, system });
+    const { contextTokens, systemTokens } = quote;
 
-    if (!openRouterResponse.ok) {
-      const errorText = await openRouterResponse.text();
-      console.error("OpenRouter error:", errorText);
-      return Response.json({ error: "Failed to get AI response" }, { status: 500 });
+    // Payment verified! User has authorized up to the max cap and can cover it
+    // NOW we can safely call the LLM provider
+    const llm = getLLMProvider();
+    const abort = new AbortController();
+    const llmRequest: ChatCompletionRequest = {
+      model: model.id,
+      messages: [
+        ...(system ? [{ role: "system" as const, content: system }] : []),
+        ...context,
+        { role: "user", content: message },
+      ],
+      maxTokens: quote.maxOutputTokens,
+      temperature,
+      signal: abort.signal,
+    };
+
+    let completion;
+    try {
+      if (stream) {
+        // Wait for the provider to start answering, so a failure is returned before anything is streamed or settled
+        const { events, answeredBy } = await startStream(llm, llmRequest);
+        return streamChat(events, answeredBy, quote, billedChatModel(model, answeredBy.model), counter, payment, abort);
+      }
+      completion = await llm.complete(llmRequest);
+    } catch (error) {
+      // Nothing is settled, the authorization expires unused
+      const providerError = toProviderError(llm.name, error);
+      console.error(`LLM provider error (${providerError.provider}, ${providerError.code}):`, providerError.message);
+      return Response.json(
+        { error: "Failed to get AI response", code: providerError.code },
+        { status: 502 }
+      );
     }
 
-    const aiData: OpenRouterResponse = await openRouterResponse.json();
-    const aiMessage = aiData.choices?.[0]?.message?.content || "No response generated";
+    const aiMessage = completion.content || "No response generated";
 
-    // STEP 3: Calculate ACTUAL cost based on tokens used
-    let tokenUsage = parseOpenRouterUsage(aiData);
-    if (tokenUsage.totalTokens === 0) {
-      // Free models don't return usage, estimate based on text length
-      const inputTokens = estimateTokens(message);
-      const outputTokens = estimateTokens(aiMessage);
+    // Calculate ACTUAL cost based on tokens used
+    const useReported = completion.usage !== null;
+    let tokenUsage: ChatCompletionUsage;
+    if (completion.usage) {
+      tokenUsage = completion.usage;
+    } else {
+      // Free models don't return usage, count with the model's tokenizer
+      const inputTokens = quote.promptTokens;
+      const outputTokens = counter.count(aiMessage);
       tokenUsage = {
         inputTokens,
         outputTokens,
@@ -108,42 +242,64 @@ export async function POST(request: Request) {
       };
     }
 
-    const actualCost = calculateTokenCost(tokenUsage.totalTokens);
-
-    // STEP 4: Settle payment for ACTUAL cost (not max cap)
-    // User signed for $0.50, but we only charge what was used
-    const result = await settlePayment({
-      resourceUrl,
-      method: "POST",
-      paymentData,
-      payTo: process.env.MERCHANT_WALLET_ADDRESS!,
-      network: avalancheFuji,
-      scheme: "upto", // Variable pricing - charge actual cost (<= signed amount)
-      price: {
-        amount: String(actualCost), // Actual cost based on tokens!
-        asset: {
-          address: USDC_FUJI_ADDRESS,
-        },
-      },
-      facilitator: thirdwebFacilitator,
-    });
+    // Billed at the rates of the model that answered, capped at the authorized max
+    const billedModel = billedChatModel(model, completion.model);
+    const itemization = itemizeTokenCost(tokenUsage.inputTokens, tokenUsage.outputTokens, billedModel, Number(payment.amount));
+    const actualCost = itemization.total;
 
+    // Settle payment for ACTUAL cost (not max cap)
+    // User signed for the max cap, but we only charge what was used
+    const result = await payment.settle(actualCost, itemization);
     if (result.status !== 200) {
-      return Response.json(result.responseBody, {
-        status: result.status,
-        headers: result.responseHeaders,
-      });
+      // Settlement failed: withhold the AI response
+      console.error("Chat settlement failed, withholding response:", result.responseBody);
+      return paymentRequiredResponse(result);
     }
 
     // Success! Return AI response with cost breakdown
     return Response.json({
       response: aiMessage,
-      tokens: tokenUsage,
+      tokens: { ...tokenUsage, contextTokens, systemTokens },
       cost: actualCost,
       formattedCost: formatUSDCShort(actualCost),
-      maxAuthorized: TOKEN_PRICING.MAX_CHAT_PAYMENT,
+      costBreakdown: costBreakdown(actualCost, systemTokens + contextTokens, billedModel),
+      itemization,
+      model: billedModel.id,
+      provider: { provider: completion.provider, model: completion.model },
+      tokenizer: tokenizerUsed(counter, useReported),
+      maxAuthorized: Number(payment.amount),
       timestamp: new Date().toISOString(),
     });
+  },
+  {
+    ...toX402Pricing(ROUTE_PRICING.AI_CHAT),
+    // The cap is the worst-case cost from the quote, the same value POST /api/ai-chat/quote recommends
+    amount: async (request) => {
+      const body = await request.clone().json();
+      const model = resolveChatModel(body.model)!;
+      const quote = await quoteChat(
+        body.message,
+        contextFromHistory(body.history, await getTokenCounter(model.id)),
+        model,
+        { maxCost: body.maxCost, system: body.system }
+      );
+      return quote.maxValue;
+    },
+  }
+);
+
+export async function POST(request: Request) {
+  try {
+    const clonedRequest = request.clone();
+    const body = await clonedRequest.json();
+
+    const validationError = validateChatRequest(body);
+    if (validationError) {
+      return Response.json({ error: validationError }, { status: 400 });
+    }
+
+    // User must authorize BEFORE we call the LLM provider
+    return paidChat(request);
   } catch (error) {
     console.error("AI Chat error:", error);
     return Response.json(
@@ -0,0 +1,22 @@
+import { FACILITATOR_MODE } from "@/lib/constants";
+import { getLocalBalance } from "@/lib/local-facilitator";
+
+// Balance lookup for the local facilitator's in-memory ledger, in USDC unless an asset address is given
+export async function GET(request: Request) {
+  if (FACILITATOR_MODE !== "local") {
+    return Response.json({ error: "Local facilitator is not enabled" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const address = searchParams.get("address");
+  const asset = searchParams.get("asset") ?? undefined;
+  if (!address) {
+    return Response.json({ error: "Address is required" }, { status: 400 });
+  }
+
+  return Response.json({
+    address,
+    ...(asset && { asset }),
+    balance: getLocalBalance(address, asset).toString(),
+  });
+}
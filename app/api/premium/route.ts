@@ -1,46 +1,13 @@
-import { settlePayment, facilitator } from "thirdweb/x402";
-import { createThirdwebClient } from "thirdweb";
-import { avalancheFuji } from "thirdweb/chains";
-import { USDC_FUJI_ADDRESS, PAYMENT_AMOUNTS } from "@/lib/constants";
+import { ROUTE_PRICING, toX402Pricing } from "@/lib/pricing";
+import { withX402 } from "@/lib/x402";
 
-const client = createThirdwebClient({
-  secretKey: process.env.THIRDWEB_SECRET_KEY!,
-});
-
-const thirdwebFacilitator = facilitator({
-  client,
-  serverWalletAddress: process.env.THIRDWEB_SERVER_WALLET_ADDRESS!,
-});
-
-export async function GET(request: Request) {
-  const paymentData = request.headers.get("x-payment");
-  const resourceUrl = new URL(request.url).href;
-
-  const result = await settlePayment({
-    resourceUrl,
-    method: "GET",
-    paymentData,
-    payTo: process.env.MERCHANT_WALLET_ADDRESS!,
-    network: avalancheFuji,
-    price: {
-      amount: PAYMENT_AMOUNTS.PREMIUM.amount,
-      asset: {
-        address: USDC_FUJI_ADDRESS,
-      },
-    },
-    facilitator: thirdwebFacilitator,
-  });
-
-  if (result.status === 200) {
+export const GET = withX402(
+  async () => {
     return Response.json({
       tier: "premium",
       data: "Welcome to Premium tier! You have unlocked all advanced features.",
       timestamp: new Date().toISOString(),
     });
-  } else {
-    return Response.json(result.responseBody, {
-      status: result.status,
-      headers: result.responseHeaders,
-    });
-  }
-}
+  },
+  toX402Pricing(ROUTE_PRICING.PREMIUM)
+);
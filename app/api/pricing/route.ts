@@ -0,0 +1,21 @@
+import { ROUTE_PRICING, CHAT_MODELS, formatPrice } from "@/lib/pricing";
+import { getPaymentOptions, convertUsdAmount } from "@/lib/payment-options";
+
+// Prices of every paid route and the assets they can be paid in
+export async function GET() {
+  const options = getPaymentOptions();
+
+  const routes = Object.values(ROUTE_PRICING).map((pricing) => ({
+    ...pricing,
+    formattedPrice: formatPrice(pricing),
+    accepts: options.map((option) => ({
+      network: option.networkId,
+      asset: option.asset.symbol,
+      address: option.asset.address,
+      maxAmount: convertUsdAmount(pricing.maxAmount, option.asset),
+    })),
+  }));
+
+  // AI chat rates and caps per model (USDC units per 1K tokens)
+  return Response.json({ routes, models: CHAT_MODELS });
+}
@@ -0,0 +1,50 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { listPayments } from "@/lib/payment-ledger";
+
+/**
+ * Whether the request carries the admin secret, compared in constant time
+ */
+function isAdmin(request: Request, secret: string): boolean {
+  const provided = request.headers.get("x-admin-secret");
+  if (!provided) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(secret));
+}
+
+// Settled payments across all paid routes, filterable by payer and route
+// Lists every payer's payments, so it needs the RECEIPTS_ADMIN_SECRET in an X-Admin-Secret header
+export async function GET(request: Request) {
+  const secret = process.env.RECEIPTS_ADMIN_SECRET;
+  if (!secret) {
+    return Response.json({ error: "Receipts are disabled, set RECEIPTS_ADMIN_SECRET" }, { status: 403 });
+  }
+  if (!isAdmin(request, secret)) {
+    return Response.json({ error: "Invalid or missing X-Admin-Secret header" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const receipts = await listPayments({
+      payer: searchParams.get("payer") ?? undefined,
+      route: searchParams.get("route") ?? undefined,
+    });
+
+    // Totals per asset, since receipts may be settled in different assets
+    const totals: Record<string, bigint> = {};
+    for (const receipt of receipts) {
+      totals[receipt.asset] = (totals[receipt.asset] ?? BigInt(0)) + BigInt(receipt.amount);
+    }
+
+    return Response.json({
+      receipts,
+      count: receipts.length,
+      totals: Object.fromEntries(Object.entries(totals).map(([asset, total]) => [asset, total.toString()])),
+    });
+  } catch (error) {
+    console.error("Receipts error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
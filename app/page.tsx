@@ -3,8 +3,9 @@
 import { useState, useEffect } from "react";
 import { createThirdwebClient } from "thirdweb";
 import { ConnectButton, useActiveWallet, useActiveAccount } from "thirdweb/react";
+import type { Account } from "thirdweb/wallets";
 import { wrapFetchWithPayment } from "thirdweb/x402";
-import { PaymentCard } from "@/components/payment-card";
+import { PaymentCard, PaymentCardOption } from "@/components/payment-card";
 import { ContentDisplay } from "@/components/content-display";
 import { TransactionLog, LogEntry } from "@/components/transaction-log";
 import { ModeNavigation, PaymentMode } from "@/components/mode-navigation";
@@ -13,12 +14,37 @@ import { ChatInterface } from "@/components/ai-chat/chat-interface";
 import { AgentDashboard } from "@/components/agent/agent-dashboard";
 import { Separator } from "@/components/ui/separator";
 import { createNormalizedFetch } from "@/lib/payment";
-import { AVALANCHE_FUJI_CHAIN_ID, PAYMENT_AMOUNTS, API_ENDPOINTS } from "@/lib/constants";
+import { ACTIVE_NETWORK } from "@/lib/constants";
+import { ROUTE_PRICING, RoutePricing, formatPrice } from "@/lib/pricing";
+import {
+  loadAccessPass,
+  saveAccessPass,
+  clearAccessPass,
+  accessPassProofMessage,
+  StoredAccessPass,
+} from "@/lib/access-pass-store";
+import {
+  getPaymentOptions,
+  convertUsdAmount,
+  formatAssetAmount,
+  paymentOptionKey,
+  selectPaymentOption,
+} from "@/lib/payment-options";
 
 const client = createThirdwebClient({
   clientId: process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID!,
 });
 
+const paymentOptions = getPaymentOptions();
+
+function cardOptions(usdAmount: number): PaymentCardOption[] {
+  return paymentOptions.map((option) => ({
+    key: paymentOptionKey(option),
+    label: formatAssetAmount(convertUsdAmount(usdAmount, option.asset), option.asset),
+    network: option.network.name,
+  }));
+}
+
 interface ContentData {
   tier: string;
   data: string;
@@ -26,6 +52,32 @@ interface ContentData {
   timestamp: string;
 }
 
+/**
+ * Fetch a route with the stored access pass, null if there is none or it was rejected
+ * The wallet signs a proof that it is the payer, the pass alone isn't accepted
+ */
+async function fetchWithAccessPass(account: Account, route: string): Promise<ContentData | null> {
+  const address = account.address;
+  const pass = loadAccessPass(address, route);
+  if (!pass) return null;
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await account.signMessage({ message: accessPassProofMessage(route, timestamp) });
+  const response = await fetch(route, {
+    headers: {
+      "x-access-pass": pass.token,
+      "x-access-pass-signature": signature,
+      "x-access-pass-timestamp": String(timestamp),
+    },
+  });
+  if (response.ok) {
+    return response.json();
+  }
+  // Rejected by the server (e.g. secret rotated), pay again
+  clearAccessPass(address, route);
+  return null;
+}
+
 export default function Home() {
   const wallet = useActiveWallet();
   const account = useActiveAccount();
@@ -34,10 +86,37 @@ export default function Home() {
   const [isPaying, setIsPaying] = useState(false);
   const [mode, setMode] = useState<PaymentMode>("human");
   const [aiScenario, setAIScenario] = useState<AIScenario>("token-chat");
+  const [selectedOption, setSelectedOption] = useState(paymentOptionKey(paymentOptions[0]));
+  const [accessPasses, setAccessPasses] = useState<Record<string, StoredAccessPass>>({});
 
   useEffect(() => {
     setLogs([]);
     setContent(null);
+    setAccessPasses({});
+
+    // Returning user: show Premium content while the access pass is valid
+    const activeAccount = wallet?.getAccount();
+    const route = ROUTE_PRICING.PREMIUM.route;
+    const pass = activeAccount ? loadAccessPass(activeAccount.address, route) : null;
+    if (!activeAccount || !pass) return;
+
+    let cancelled = false;
+    fetchWithAccessPass(activeAccount, route)
+      .then((data) => {
+        if (cancelled || !data) return;
+        setAccessPasses({ [route]: pass });
+        setContent(data);
+      })
+      .catch((error) => {
+        // Network failure or declined signature, the user can still pay
+        console.error("Failed to use access pass:", error);
+        if (cancelled) return;
+        setAccessPasses({});
+        setContent(null);
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [wallet, account?.address]);
 
   const addLog = (message: string, type: LogEntry["type"]) => {
@@ -59,26 +138,44 @@ export default function Home() {
     setContent(null);
     setLogs([]);
 
+    const pricing: RoutePricing = tier === "basic" ? ROUTE_PRICING.BASIC : ROUTE_PRICING.PREMIUM;
+
     try {
+      // A valid access pass unlocks the content without a new payment
+      if (account && pricing.accessPassHours) {
+        const passContent = await fetchWithAccessPass(account, pricing.route);
+        if (passContent) {
+          addLog("Access pass valid, no payment needed", "success");
+          setContent(passContent);
+          return;
+        }
+        setAccessPasses((prev) =>
+          Object.fromEntries(Object.entries(prev).filter(([route]) => route !== pricing.route))
+        );
+      }
+
       addLog(`Initiating ${tier} payment...`, "info");
       console.log('=== Client Payment Flow Debug ===');
       console.log('Wallet:', wallet);
       console.log('Account:', account?.address);
 
-      const normalizedFetch = createNormalizedFetch(AVALANCHE_FUJI_CHAIN_ID);
-      const maxValue = tier === "basic" ? PAYMENT_AMOUNTS.BASIC.bigInt : PAYMENT_AMOUNTS.PREMIUM.bigInt;
+      const option = paymentOptions.find((o) => paymentOptionKey(o) === selectedOption) ?? paymentOptions[0];
+      addLog(`Paying with ${option.asset.symbol} on ${option.network.name}`, "info");
+
+      const normalizedFetch = createNormalizedFetch(option.network.chain.id);
+      const maxValue = BigInt(convertUsdAmount(pricing.maxAmount, option.asset));
       console.log('Creating fetchWithPay with maxValue:', maxValue.toString());
 
       const fetchWithPay = wrapFetchWithPayment(
         normalizedFetch,
         client,
         wallet,
-        { maxValue }
+        { maxValue, paymentRequirementsSelector: selectPaymentOption(option) }
       );
       console.log('fetchWithPay created');
 
       addLog("Requesting payment authorization...", "info");
-      const endpoint = tier === "basic" ? API_ENDPOINTS.BASIC : API_ENDPOINTS.PREMIUM;
+      const endpoint = pricing.route;
       console.log('Calling endpoint:', endpoint);
       const response = await fetchWithPay(endpoint);
       console.log('Response status:', response.status);
@@ -93,6 +190,12 @@ export default function Home() {
         addLog("Payment successful!", "success");
         addLog("Content received", "success");
         setContent(responseData);
+
+        const pass = account ? saveAccessPass(account.address, pricing.route, response) : null;
+        if (pass) {
+          setAccessPasses((prev) => ({ ...prev, [pricing.route]: pass }));
+          addLog(`Access pass valid until ${new Date(pass.expiresAt).toLocaleString()}`, "success");
+        }
       } else {
         updateLogStatus("Initiating", "error");
         updateLogStatus("Requesting payment authorization", "error");
@@ -116,7 +219,7 @@ export default function Home() {
           <div>
             <h1 className="text-4xl font-bold mb-2">x402 Starter Kit</h1>
             <p className="text-muted-foreground">HTTP 402 Payment Protocol Demo</p>
-            <p className="text-sm text-muted-foreground mt-1">Avalanche Fuji Testnet</p>
+            <p className="text-sm text-muted-foreground mt-1">{ACTIVE_NETWORK.name}</p>
           </div>
           <ConnectButton client={client} />
         </div>
@@ -151,15 +254,22 @@ export default function Home() {
             <div className="flex flex-wrap justify-between gap-6 max-w-4xl mx-auto">
               <PaymentCard
                 tier="Basic"
-                price="$0.01"
+                price={formatPrice(ROUTE_PRICING.BASIC)}
                 description="Perfect for trying out the payment system"
+                options={cardOptions(ROUTE_PRICING.BASIC.amount)}
+                selectedOption={selectedOption}
+                onOptionChange={setSelectedOption}
                 onPayClick={() => handlePayment("basic")}
                 isPaying={isPaying}
               />
               <PaymentCard
                 tier="Premium"
-                price="$0.15"
+                price={formatPrice(ROUTE_PRICING.PREMIUM)}
                 description="Full access to all advanced features"
+                options={cardOptions(ROUTE_PRICING.PREMIUM.amount)}
+                selectedOption={selectedOption}
+                onOptionChange={setSelectedOption}
+                accessExpiresAt={accessPasses[ROUTE_PRICING.PREMIUM.route]?.expiresAt}
                 onPayClick={() => handlePayment("premium")}
                 isPaying={isPaying}
               />
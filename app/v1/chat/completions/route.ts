@@ -0,0 +1,292 @@
+import { ROUTE_PRICING, toX402Pricing, getChatModel, billedChatModel } from "@/lib/pricing";
+import type { ChatModelPricing } from "@/lib/pricing";
+import { calculateTokenCost, itemizeTokenCost, formatUSDCShort } from "@/lib/token-pricing";
+import type { CostItemization } from "@/lib/token-pricing";
+import { getTokenCounter } from "@/lib/tokenizer";
+import type { TokenCounter } from "@/lib/tokenizer";
+import { withX402, paymentRequiredResponse } from "@/lib/x402";
+import type { PaymentContext } from "@/lib/x402";
+import { encodeSSEData } from "@/lib/sse";
+import { getLLMProvider } from "@/lib/llm";
+import { toProviderError, startStream } from "@/lib/llm-provider";
+import type { ChatCompletionUsage, ChatStreamEvent, ToolCall } from "@/lib/llm-provider";
+import { countPromptTokens, quoteCompletion } from "@/lib/chat-quote";
+import {
+  openAIError,
+  validateOpenAIChatRequest,
+  toCompletionRequest,
+  toOpenAIUsage,
+  completionId,
+} from "@/lib/openai-chat";
+import type { OpenAIChatRequest } from "@/lib/openai-chat";
+
+interface AnsweredBy {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Completion tokens of a reply: its content and tool calls
+ */
+function countOutputTokens(counter: TokenCounter, content: string, toolCalls: ToolCall[]): number {
+  return counter.count(content) +
+    toolCalls.reduce((sum, call) => sum + counter.count(call.function.name + call.function.arguments), 0);
+}
+
+/**
+ * Payment details returned next to the OpenAI fields, ignored by OpenAI SDKs
+ */
+function paymentSummary(itemization: CostItemization, payment: PaymentContext, answeredBy: AnsweredBy) {
+  return {
+    cost: itemization.total,
+    formattedCost: formatUSDCShort(itemization.total),
+    itemization,
+    maxAuthorized: Number(payment.amount),
+    transaction: payment.receipt?.transaction,
+    provider: answeredBy,
+  };
+}
+
+/**
+ * Stream the completion as OpenAI chat.completion.chunk events, ending with "data: [DONE]"
+ *
+ * The stream is cut off with finish_reason "length" once the running cost reaches the upto cap,
+ * and the final amount is settled before the finish chunk. The finish chunk carries the payment,
+ * and a usage chunk follows when stream_options.include_usage is set.
+ */
+function streamCompletion(
+  events: AsyncIterator<ChatStreamEvent>,
+  answeredBy: AnsweredBy,
+  body: OpenAIChatRequest,
+  inputTokens: number,
+  model: ChatModelPricing,
+  counter: TokenCounter,
+  payment: PaymentContext,
+  abort: AbortController
+): Response {
+  // Cap authorized for this request
+  const maxAmount = Number(payment.amount);
+  const { id, created } = completionId();
+  const chunk = (choices: unknown[], extra?: Record<string, unknown>) => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model: model.id,
+    choices,
+    ...extra,
+  });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) => {
+        try {
+          controller.enqueue(encodeSSEData(data));
+        } catch {
+          // Client disconnected, keep going so the consumed tokens are settled
+        }
+      };
+      const fail = (message: string) => {
+        send({ error: { message, type: "server_error", param: null, code: null } });
+        send("[DONE]");
+        controller.close();
+      };
+
+      send(chunk([{ index: 0, delta: { role: "assistant", content: "" }, finish_reason: null }]));
+
+      let content = "";
+      const toolCalls: ToolCall[] = [];
+      let finishReason = "stop";
+      let usage: ChatCompletionUsage | null = null;
+      let capped = false;
+      let upstreamError: string | null = null;
+
+      try {
+        while (!capped) {
+          const next = await events.next();
+          if (next.done) break;
+          const event = next.value;
+
+          if (event.type === "usage") {
+            usage = event.usage;
+          } else if (event.type === "finish") {
+            finishReason = event.reason;
+          } else if (event.type === "delta") {
+            content += event.content;
+            send(chunk([{ index: 0, delta: { content: event.content }, finish_reason: null }]));
+          } else if (event.type === "tool_call") {
+            const call = toolCalls[event.index] ??= {
+              id: event.id ?? `call_${event.index}`,
+              type: "function",
+              function: { name: "", arguments: "" },
+            };
+            if (event.id) call.id = event.id;
+            if (event.name) call.function.name = event.name;
+            call.function.arguments += event.arguments;
+            send(chunk([{
+              index: 0,
+              delta: {
+                tool_calls: [{
+                  index: event.index,
+                  ...(event.id && { id: event.id, type: "function" }),
+                  function: { ...(event.name && { name: event.name }), arguments: event.arguments },
+                }],
+              },
+              finish_reason: null,
+            }]));
+          }
+
+          if (event.type !== "delta" && event.type !== "tool_call") continue;
+
+          // Stop at the max cap, the user has not authorized more
+          const cost = calculateTokenCost(inputTokens, countOutputTokens(counter, content, toolCalls.filter(Boolean)), model);
+          if (cost >= maxAmount) {
+            capped = true;
+            finishReason = "length";
+            abort.abort();
+          }
+        }
+      } catch (error) {
+        if (!capped) {
+          const providerError = toProviderError(answeredBy.provider, error);
+          console.error(`LLM stream error (${providerError.provider}, ${providerError.code}):`, providerError.message);
+          upstreamError = "Completion stream was interrupted";
+        }
+      }
+
+      // Nothing was generated, nothing to charge
+      const calls = toolCalls.filter(Boolean);
+      if (!content && calls.length === 0) {
+        fail(upstreamError ?? "No completion generated");
+        return;
+      }
+
+      // Prefer reported usage, count if the model doesn't return it (or the stream was cut off)
+      const reported = usage as ChatCompletionUsage | null;
+      const outputTokens = countOutputTokens(counter, content, calls);
+      const tokens: ChatCompletionUsage = reported && !capped
+        ? reported
+        : { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+      const itemization = itemizeTokenCost(tokens.inputTokens, tokens.outputTokens, model, maxAmount);
+
+      // Settle the final amount now that the stream is closed
+      const result = await payment.settle(itemization.total, itemization);
+      if (result.status !== 200) {
+        console.error("Completion stream settlement failed:", result.responseBody);
+        fail("Payment settlement failed");
+        return;
+      }
+
+      send(chunk(
+        [{ index: 0, delta: {}, finish_reason: finishReason }],
+        { x402: paymentSummary(itemization, payment, answeredBy) }
+      ));
+      if (body.stream_options?.include_usage) {
+        send(chunk([], { usage: toOpenAIUsage(tokens) }));
+      }
+      send("[DONE]");
+      controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// Variable pricing - the client authorizes the worst-case cost of the request, we charge actual
+const paidCompletion = withX402(
+  async (request, payment) => {
+    const body: OpenAIChatRequest = await request.json();
+    const model = getChatModel(body.model)!;
+    const abort = new AbortController();
+    const llmRequest = toCompletionRequest(body, model, abort.signal);
+    const counter = await getTokenCounter(model.id);
+    const inputTokens = countPromptTokens(llmRequest, counter);
+
+    // Payment verified, NOW we can safely call the LLM provider
+    const llm = getLLMProvider();
+    let completion;
+    try {
+      if (body.stream) {
+        // Wait for the provider to start answering, so a failure is returned before anything is streamed or settled
+        const { events, answeredBy } = await startStream(llm, llmRequest);
+        return streamCompletion(events, answeredBy, body, inputTokens, billedChatModel(model, answeredBy.model), counter, payment, abort);
+      }
+      completion = await llm.complete(llmRequest);
+    } catch (error) {
+      // Nothing is settled, the authorization expires unused
+      const providerError = toProviderError(llm.name, error);
+      console.error(`LLM provider error (${providerError.provider}, ${providerError.code}):`, providerError.message);
+      return openAIError("Failed to get a completion from the upstream provider", "api_error", 502, providerError.code);
+    }
+
+    const outputTokens = countOutputTokens(counter, completion.content, completion.toolCalls);
+    const tokens: ChatCompletionUsage = completion.usage ?? {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+    };
+    // Billed at the rates of the model that answered, capped at the authorized max
+    const billedModel = billedChatModel(model, completion.model);
+    const itemization = itemizeTokenCost(tokens.inputTokens, tokens.outputTokens, billedModel, Number(payment.amount));
+
+    // Settle payment for ACTUAL cost (not max cap)
+    const result = await payment.settle(itemization.total, itemization);
+    if (result.status !== 200) {
+      // Settlement failed: withhold the completion
+      console.error("Completion settlement failed, withholding response:", result.responseBody);
+      return paymentRequiredResponse(result);
+    }
+
+    const hasToolCalls = completion.toolCalls.length > 0;
+    return Response.json({
+      ...completionId(),
+      object: "chat.completion",
+      model: billedModel.id,
+      choices: [{
+        index: 0,
+        message: {
+          role: "assistant",
+          content: hasToolCalls && !completion.content ? null : completion.content,
+          ...(hasToolCalls && { tool_calls: completion.toolCalls }),
+        },
+        finish_reason: completion.finishReason ?? (hasToolCalls ? "tool_calls" : "stop"),
+      }],
+      usage: toOpenAIUsage(tokens),
+      x402: paymentSummary(itemization, payment, { provider: completion.provider, model: completion.model }),
+    });
+  },
+  {
+    ...toX402Pricing(ROUTE_PRICING.CHAT_COMPLETIONS),
+    // The cap is the worst-case cost of the prompt with a full-length reply
+    amount: async (request) => {
+      const body: OpenAIChatRequest = await request.clone().json();
+      const model = getChatModel(body.model)!;
+      return quoteCompletion(toCompletionRequest(body, model), model);
+    },
+  }
+);
+
+export async function POST(request: Request) {
+  let body: Partial<OpenAIChatRequest>;
+  try {
+    body = await request.clone().json();
+  } catch {
+    return openAIError("Request body must be JSON", "invalid_request_error", 400);
+  }
+
+  const validationError = validateOpenAIChatRequest(body);
+  if (validationError) {
+    return validationError;
+  }
+
+  // Client must authorize BEFORE we call the LLM provider
+  return paidCompletion(request);
+}
@@ -5,7 +5,6 @@ import { createThirdwebClient, prepareContractCall, getContract } from "thirdweb
 import { useActiveAccount, useSendTransaction } from "thirdweb/react";
 import { privateKeyAccount } from "thirdweb/wallets";
 import { wrapFetchWithPayment } from "thirdweb/x402";
-import { avalancheFuji } from "thirdweb/chains";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -13,22 +12,35 @@ import { AuthorizationPanel } from "./authorization-panel";
 import { WalletBalance } from "./wallet-balance";
 import { ServiceNetwork, ServiceCall } from "./service-network";
 import { WithdrawModal } from "./withdraw-modal";
-import { createNormalizedFetch } from "@/lib/payment";
-import { AVALANCHE_FUJI_CHAIN_ID, API_ENDPOINTS, AGENT_AUTHORIZATION, USDC_FUJI_ADDRESS } from "@/lib/constants";
+import { WalletSwitcher, WalletSwitcherProps } from "./wallet-switcher";
+import { ConversationSidebar } from "@/components/conversation-sidebar";
+import { createNormalizedFetch, getPaymentTransaction } from "@/lib/payment";
+import { ACTIVE_NETWORK, API_ENDPOINTS } from "@/lib/constants";
+import { ROUTE_PRICING } from "@/lib/pricing";
 import {
   AgentWallet,
+  AgentWalletData,
   getUSDCBalance,
   formatUSDCBalance,
   createAgentAccount,
+  listAgentWallets,
+  getSelectedAgentWalletId,
+  selectAgentWallet,
+  archiveAgentWallet,
+  unarchiveAgentWallet,
 } from "@/lib/agent-wallet";
-import { formatBudget } from "@/lib/agent-authorization";
+import { formatBudget, enforceAgentPolicy, recordAgentSpend, AgentPolicyError } from "@/lib/agent-authorization";
+import type { AgentPayment } from "@/lib/agent-authorization";
+import { saveConversation, conversationTitle, conversationSpend } from "@/lib/conversation-store";
+import type { Conversation, ConversationMessage } from "@/lib/conversation-store";
 
 const client = createThirdwebClient({
   clientId: process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID!,
 });
 
 // Service cost as BigInt for x402 payments
-const SERVICE_COST_BIGINT = BigInt(AGENT_AUTHORIZATION.SERVICE_COST);
+const SERVICE_COST = ROUTE_PRICING.AGENT.amount;
+const SERVICE_COST_BIGINT = BigInt(SERVICE_COST);
 
 // Smart commands that trigger multiple service calls
 const SMART_COMMANDS: Record<string, { tokens: string[]; description: string }> = {
@@ -57,12 +69,49 @@ interface AgentMessage {
   timestamp: Date;
   tokens?: string[];
   totalCost?: number;
+  /** Settlement transaction hashes of the lookups paid for this message */
+  transactions?: string[];
+}
+
+function toConversationMessage(message: AgentMessage): ConversationMessage {
+  return {
+    id: message.id,
+    role: message.sender === "agent" ? "assistant" : message.sender,
+    content: message.content,
+    timestamp: message.timestamp.toISOString(),
+    cost: message.totalCost,
+    transactions: message.transactions,
+  };
+}
+
+function fromConversationMessage(message: ConversationMessage): AgentMessage {
+  return {
+    id: message.id,
+    sender: message.role === "assistant" ? "agent" : message.role,
+    content: message.content,
+    timestamp: message.timestamp ? new Date(message.timestamp) : new Date(),
+    totalCost: message.cost,
+    transactions: message.transactions,
+  };
+}
+
+// The conversation being written, walletAddress set once it is saved under a wallet
+interface ActiveConversation {
+  id: string;
+  createdAt: string;
+  walletAddress?: string;
+}
+
+function newConversation(): ActiveConversation {
+  return { id: crypto.randomUUID(), createdAt: new Date().toISOString() };
 }
 
 export function AgentDashboard() {
   const mainAccount = useActiveAccount();
   const { mutate: sendTransaction, isPending: isFunding } = useSendTransaction();
   const [agentWallet, setAgentWallet] = useState<AgentWallet | null>(null);
+  const [wallets, setWallets] = useState<AgentWalletData[]>([]);
+  const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
   const [agentBalance, setAgentBalance] = useState<bigint>(BigInt(0));
   const [mainBalance, setMainBalance] = useState<bigint>(BigInt(0));
   const [messages, setMessages] = useState<AgentMessage[]>([]);
@@ -72,10 +121,25 @@ export function AgentDashboard() {
   const [showWithdrawModal, setShowWithdrawModal] = useState(false);
   const [showAddFunds, setShowAddFunds] = useState(false);
   const [fundAmount, setFundAmount] = useState(500000); // $0.50 default
+  const [conversation, setConversation] = useState(newConversation);
+  const [savedCount, setSavedCount] = useState(0);
   
   // Store the agent's signing wallet
   const agentSignerRef = useRef<ReturnType<typeof privateKeyAccount> | null>(null);
   const fetchWithPayRef = useRef<ReturnType<typeof wrapFetchWithPayment> | null>(null);
+  // Payment the policy allowed for the call in flight, recorded once it settles
+  const selectedPaymentRef = useRef<AgentPayment | null>(null);
+  // Wallets unlocked this session, so switching back doesn't ask for the secret again
+  const [unlockedWallets, setUnlockedWallets] = useState<Record<string, AgentWallet>>({});
+
+  const refreshWallets = useCallback(() => {
+    setWallets(listAgentWallets({ includeArchived: true }));
+    setSelectedWalletId(getSelectedAgentWalletId());
+  }, []);
+
+  useEffect(() => {
+    refreshWallets();
+  }, [refreshWallets]);
 
   // Initialize agent signer when wallet is ready
   useEffect(() => {
@@ -88,15 +152,19 @@ export function AgentDashboard() {
       // wrapFetchWithPayment needs a wallet that has getAccount()
       const agentWalletWrapper = {
         getAccount: () => agentAccount,
-        getChain: () => ({ id: AVALANCHE_FUJI_CHAIN_ID }),
+        getChain: () => ACTIVE_NETWORK.chain,
       };
       
-      const normalizedFetch = createNormalizedFetch(AVALANCHE_FUJI_CHAIN_ID);
+      // The authorization policy is checked when the payment is selected, before it is signed
+      const normalizedFetch = createNormalizedFetch();
+      const paymentRequirementsSelector = enforceAgentPolicy(agentWallet.address, (payment) => {
+        selectedPaymentRef.current = payment;
+      });
       fetchWithPayRef.current = wrapFetchWithPayment(
         normalizedFetch,
         client,
         agentWalletWrapper as any,
-        { maxValue: SERVICE_COST_BIGINT }
+        { maxValue: SERVICE_COST_BIGINT, paymentRequirementsSelector }
       );
       
       console.log("Agent wallet ready for autonomous signing:", agentWallet.address);
@@ -106,6 +174,27 @@ export function AgentDashboard() {
     }
   }, [agentWallet]);
 
+  // Persist the conversation once the user has asked something and the agent is done
+  // A conversation stays with the wallet it was first saved under
+  const agentAddress = agentWallet?.address;
+  useEffect(() => {
+    if (!agentAddress || isProcessing || !messages.some(m => m.sender === "user")) return;
+
+    const stored = messages.map(toConversationMessage);
+    const record: Conversation = {
+      ...conversation,
+      kind: "agent",
+      walletAddress: conversation.walletAddress ?? agentAddress,
+      title: conversationTitle(stored, "Agent session"),
+      messages: stored,
+      totalSpent: conversationSpend(stored),
+      updatedAt: new Date().toISOString(),
+    };
+    saveConversation(record)
+      .then(() => setSavedCount(count => count + 1))
+      .catch(error => console.error("Failed to save agent conversation:", error));
+  }, [messages, isProcessing, conversation, agentAddress]);
+
   // Fetch balances
   useEffect(() => {
     const fetchBalances = async () => {
@@ -125,7 +214,9 @@ export function AgentDashboard() {
   }, [agentWallet, mainAccount?.address]);
 
   const handleAgentWalletReady = useCallback((wallet: AgentWallet) => {
+    setUnlockedWallets(prev => ({ ...prev, [wallet.id]: wallet }));
     setAgentWallet(wallet);
+    setSelectedWalletId(wallet.id);
     setMessages([{
       id: Date.now().toString(),
       sender: "agent",
@@ -133,8 +224,70 @@ export function AgentDashboard() {
       timestamp: new Date(),
     }]);
     setServiceCalls([]);
+    setConversation(newConversation());
   }, []);
 
+  const handleNewConversation = () => {
+    setMessages([]);
+    setConversation(newConversation());
+    setServiceCalls([]);
+  };
+
+  // Each wallet has its own balance, policy and history
+  const handleSelectWallet = (id: string) => {
+    selectAgentWallet(id);
+    setAgentBalance(BigInt(0));
+    setShowAddFunds(false);
+    const unlocked = unlockedWallets[id];
+    if (unlocked) {
+      handleAgentWalletReady(unlocked);
+    } else {
+      setAgentWallet(null);
+      setSelectedWalletId(id);
+      handleNewConversation();
+    }
+  };
+
+  const handleNewWallet = () => {
+    setAgentWallet(null);
+    setAgentBalance(BigInt(0));
+    setSelectedWalletId(null);
+    handleNewConversation();
+  };
+
+  const handleArchiveWallet = (id: string) => {
+    if (!confirm("Archive this agent wallet? It keeps its funds and history and can be restored later.")) return;
+    archiveAgentWallet(id);
+    setUnlockedWallets(prev => Object.fromEntries(Object.entries(prev).filter(([walletId]) => walletId !== id)));
+    if (id === selectedWalletId) {
+      setAgentWallet(null);
+      setAgentBalance(BigInt(0));
+      handleNewConversation();
+    }
+    refreshWallets();
+  };
+
+  const handleRestoreWallet = (id: string) => {
+    unarchiveAgentWallet(id);
+    refreshWallets();
+  };
+
+  const walletSwitcher: WalletSwitcherProps = {
+    wallets,
+    selectedId: selectedWalletId,
+    onSelect: handleSelectWallet,
+    onNew: handleNewWallet,
+    onArchive: handleArchiveWallet,
+    onRestore: handleRestoreWallet,
+    disabled: isProcessing,
+  };
+
+  const handleSelectConversation = (stored: Conversation) => {
+    setMessages(stored.messages.map(fromConversationMessage));
+    setConversation({ id: stored.id, createdAt: stored.createdAt, walletAddress: stored.walletAddress });
+    setServiceCalls([]);
+  };
+
   const handleWithdraw = () => {
     setShowWithdrawModal(true);
   };
@@ -152,8 +305,8 @@ export function AgentDashboard() {
     try {
       const contract = getContract({
         client,
-        chain: avalancheFuji,
-        address: USDC_FUJI_ADDRESS,
+        chain: ACTIVE_NETWORK.chain,
+        address: ACTIVE_NETWORK.usdc.address,
       });
 
       const transaction = prepareContractCall({
@@ -202,7 +355,7 @@ export function AgentDashboard() {
   // Make a single service call with REAL x402 payment using agent wallet
   const callPriceService = async (token: string): Promise<ServiceCall> => {
     const callId = `${Date.now()}-${token}`;
-    const serviceCost = AGENT_AUTHORIZATION.SERVICE_COST;
+    const serviceCost = SERVICE_COST;
 
     // Add pending call
     const pendingCall: ServiceCall = {
@@ -224,12 +377,19 @@ export function AgentDashboard() {
       // The agent wallet's private key allows automatic signing - no popups!
       console.log(`[Agent] Making autonomous payment for ${token} price lookup...`);
       
+      selectedPaymentRef.current = null;
       const response = await fetchWithPayRef.current(API_ENDPOINTS.AGENT, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ message: `price of ${token}` }),
       });
 
+      // Only a settled payment counts toward the policy's limits
+      if (response.ok && response.headers.has("X-PAYMENT-RESPONSE") && selectedPaymentRef.current && agentWallet) {
+        recordAgentSpend(agentWallet.address, selectedPaymentRef.current);
+      }
+      selectedPaymentRef.current = null;
+
       const data = await response.json();
 
       if (response.status === 200 && data.success) {
@@ -238,6 +398,7 @@ export function AgentDashboard() {
         const successCall: ServiceCall = {
           ...pendingCall,
           status: "success",
+          transaction: getPaymentTransaction(response) ?? undefined,
           result: data.priceData ? {
             price: data.priceData.price,
             change24h: data.priceData.change24h,
@@ -248,13 +409,19 @@ export function AgentDashboard() {
         return successCall;
       } else {
         console.error(`[Agent] Service call failed for ${token}:`, data);
-        const errorCall: ServiceCall = { ...pendingCall, status: "error" };
+        // charged: false means the service failed after verifying and never settled
+        const errorCall: ServiceCall = data.charged === false
+          ? { ...pendingCall, status: "error", cost: 0, charged: false }
+          : { ...pendingCall, status: "error" };
         setServiceCalls(prev => prev.map(c => c.id === callId ? errorCall : c));
         return errorCall;
       }
     } catch (error) {
       console.error(`[Agent] Error calling price service for ${token}:`, error);
-      const errorCall: ServiceCall = { ...pendingCall, status: "error" };
+      // Blocked by the policy: nothing was signed
+      const errorCall: ServiceCall = error instanceof AgentPolicyError
+        ? { ...pendingCall, status: "error", cost: 0, charged: false, blockedReason: error.message }
+        : { ...pendingCall, status: "error" };
       setServiceCalls(prev => prev.map(c => c.id === callId ? errorCall : c));
       return errorCall;
     }
@@ -288,7 +455,7 @@ export function AgentDashboard() {
     }
 
     // Check budget (agent wallet balance)
-    const totalCost = BigInt(tokens.length * AGENT_AUTHORIZATION.SERVICE_COST);
+    const totalCost = BigInt(tokens.length * SERVICE_COST);
 
     if (agentBalance < totalCost) {
       setMessages(prev => [...prev, {
@@ -307,7 +474,7 @@ export function AgentDashboard() {
       sender: "agent",
       content: isSmartCommand
         ? `Executing "${commandName}"... I'll query ${tokens.length} prices (paying ${formatBudget(Number(totalCost))} automatically).`
-        : `Querying price for ${tokens[0]}... (paying ${formatBudget(AGENT_AUTHORIZATION.SERVICE_COST)})`,
+        : `Querying price for ${tokens[0]}... (paying ${formatBudget(SERVICE_COST)})`,
       timestamp: new Date(),
       tokens,
     };
@@ -326,13 +493,23 @@ export function AgentDashboard() {
 
     // Build summary response
     const successResults = results.filter(r => r.status === "success" && r.result);
-    const actualCost = successResults.length * AGENT_AUTHORIZATION.SERVICE_COST;
+    const actualCost = successResults.length * SERVICE_COST;
+    const transactions = successResults.flatMap(r => r.transaction ? [r.transaction] : []);
+    const blocked = results.filter(r => r.blockedReason);
+    const blockedNote = blocked.length > 0
+      ? `\n\n⛔ ${blocked.length} lookup${blocked.length > 1 ? "s" : ""} blocked by your authorization policy: ${blocked[0].blockedReason}`
+      : "";
 
     if (successResults.length === 0) {
+      const notCharged = results.every(r => r.charged === false);
       setMessages(prev => [...prev, {
         id: (Date.now() + 2).toString(),
         sender: "agent",
-        content: "Sorry, I couldn't fetch the price data. The service might be temporarily unavailable or there was a payment issue.",
+        content: blocked.length > 0
+          ? `I didn't pay for anything.${blockedNote}`
+          : notCharged
+          ? "Sorry, the price service is temporarily unavailable. No payment was made."
+          : "Sorry, I couldn't fetch the price data. The service might be temporarily unavailable or there was a payment issue.",
         timestamp: new Date(),
       }]);
     } else if (isSmartCommand && successResults.length > 1) {
@@ -349,9 +526,10 @@ export function AgentDashboard() {
       setMessages(prev => [...prev, {
         id: (Date.now() + 2).toString(),
         sender: "agent",
-        content: `Here's your ${commandName}:\n\n${summaryLines.join('\n')}\n\n✅ Paid ${formatBudget(actualCost)} for ${successResults.length} queries`,
+        content: `Here's your ${commandName}:\n\n${summaryLines.join('\n')}\n\n✅ Paid ${formatBudget(actualCost)} for ${successResults.length} queries${blockedNote}`,
         timestamp: new Date(),
         totalCost: actualCost,
+        transactions,
       }]);
     } else if (successResults.length === 1) {
       // Single result
@@ -364,9 +542,10 @@ export function AgentDashboard() {
       setMessages(prev => [...prev, {
         id: (Date.now() + 2).toString(),
         sender: "agent",
-        content: `**${r.token}** ${changeEmoji}\n\nPrice: ${priceStr}\n24h Change: ${r.result!.change24h >= 0 ? '+' : ''}${r.result!.change24h.toFixed(2)}%\n\n✅ Paid ${formatBudget(actualCost)}`,
+        content: `**${r.token}** ${changeEmoji}\n\nPrice: ${priceStr}\n24h Change: ${r.result!.change24h >= 0 ? '+' : ''}${r.result!.change24h.toFixed(2)}%\n\n✅ Paid ${formatBudget(actualCost)}${blockedNote}`,
         timestamp: new Date(),
         totalCost: actualCost,
+        transactions,
       }]);
     }
 
@@ -374,7 +553,7 @@ export function AgentDashboard() {
   };
 
   const isReady = agentWallet && agentBalance > BigInt(0);
-  const totalServiceEarnings = serviceCalls.filter(c => c.status === "success").length * AGENT_AUTHORIZATION.SERVICE_COST;
+  const totalServiceEarnings = serviceCalls.filter(c => c.status === "success").length * SERVICE_COST;
 
   return (
     <div className="w-full max-w-5xl mx-auto space-y-4">
@@ -389,10 +568,16 @@ export function AgentDashboard() {
         />
       )}
 
+      {/* Wallet switcher, in the balance card once the agent is ready */}
+      {!isReady && wallets.length > 0 && <WalletSwitcher {...walletSwitcher} />}
+
       {/* Authorization / Wallet Setup */}
       <AuthorizationPanel
         onAgentWalletReady={handleAgentWalletReady}
         agentWallet={agentWallet}
+        walletId={selectedWalletId}
+        onWalletsChanged={refreshWallets}
+        unlockedWallets={Object.values(unlockedWallets)}
       />
 
       {/* Agent Ready - Show Dashboard */}
@@ -401,6 +586,8 @@ export function AgentDashboard() {
           {/* Wallet Balance Display */}
           <WalletBalance
             agentWalletAddress={agentWallet.address}
+            walletName={agentWallet.name}
+            switcher={walletSwitcher}
             onWithdraw={handleWithdraw}
             showWithdraw={true}
           />
@@ -585,7 +772,16 @@ export function AgentDashboard() {
             </div>
 
             {/* Right Panel - Service Network (2/5 width) */}
-            <div className="lg:col-span-2">
+            <div className="lg:col-span-2 space-y-4">
+              <ConversationSidebar
+                kind="agent"
+                walletAddress={agentWallet.address}
+                activeId={conversation.id}
+                refreshKey={savedCount}
+                onSelect={handleSelectConversation}
+                onNew={handleNewConversation}
+                disabled={isProcessing}
+              />
               <ServiceNetwork
                 serviceCalls={serviceCalls}
                 totalEarned={totalServiceEarnings}
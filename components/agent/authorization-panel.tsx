@@ -4,20 +4,31 @@ import { useState, useEffect } from "react";
 import { createThirdwebClient } from "thirdweb";
 import { useActiveAccount, useSendTransaction } from "thirdweb/react";
 import { prepareContractCall, getContract } from "thirdweb";
-import { avalancheFuji } from "thirdweb/chains";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
   createAgentWallet,
-  loadAgentWallet,
-  hasAgentWallet,
-  getAgentWalletAddress,
+  importAgentWallet,
+  deriveAgentWallet,
+  restoreAgentWallet,
+  nextDerivationPath,
+  unlockAgentWallet,
+  migrateLegacyAgentWallet,
+  getAgentWalletData,
+  isLegacyWalletData,
+  getSignatureSecret,
   getUSDCBalance,
   formatUSDCBalance,
   deleteAgentWallet,
   AgentWallet,
+  KeySource,
+  WalletImport,
 } from "@/lib/agent-wallet";
-import { USDC_FUJI_ADDRESS, AGENT_AUTHORIZATION } from "@/lib/constants";
+import { DEFAULT_DERIVATION_PATH } from "@/lib/hd-wallet";
+import { loadAuthorization, authorizeAgent, deleteAuthorization } from "@/lib/agent-authorization";
+import { ACTIVE_NETWORK, WALLET_ENCRYPTION } from "@/lib/constants";
+import { AuthorizationPolicy, defaultAgentPolicy } from "./authorization-policy";
+import { WalletBackup } from "./wallet-backup";
 
 const client = createThirdwebClient({
   clientId: process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID!,
@@ -26,11 +37,29 @@ const client = createThirdwebClient({
 interface AuthorizationPanelProps {
   onAgentWalletReady: (wallet: AgentWallet) => void;
   agentWallet: AgentWallet | null;
+  /** Stored wallet to set up, null to create a new one */
+  walletId: string | null;
+  /** Called after a wallet is created, migrated or deleted */
+  onWalletsChanged: () => void;
+  /** Wallets unlocked this session, recovery phrase ones can derive new wallets */
+  unlockedWallets?: AgentWallet[];
 }
 
-type Step = "no-wallet" | "wallet-created" | "funding" | "ready";
+// locked: stored encrypted, needs the passphrase or signature
+// migrate: stored in the legacy XOR format, needs re-encrypting before use
+type Step = "no-wallet" | "locked" | "migrate" | "wallet-created" | "funding" | "ready";
 
-export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: AuthorizationPanelProps) {
+// How a new wallet gets its key: generated, imported, derived from an unlocked wallet's phrase,
+// or restored from a backup file with its name and policy
+type CreateMode = "new" | "import" | "derive" | "restore";
+
+export function AuthorizationPanel({
+  onAgentWalletReady,
+  agentWallet,
+  walletId,
+  onWalletsChanged,
+  unlockedWallets = [],
+}: AuthorizationPanelProps) {
   const mainAccount = useActiveAccount();
   const { mutate: sendTransaction, isPending: isSending } = useSendTransaction();
   
@@ -41,22 +70,82 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
   const [agentBalance, setAgentBalance] = useState<bigint>(BigInt(0));
   const [mainBalance, setMainBalance] = useState<bigint>(BigInt(0));
   const [isLoadingBalances, setIsLoadingBalances] = useState(false);
+  const [unlockedWallet, setUnlockedWallet] = useState<AgentWallet | null>(null);
+  const [keySource, setKeySource] = useState<KeySource>("signature");
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [walletName, setWalletName] = useState("");
+  const [createMode, setCreateMode] = useState<CreateMode>("new");
+  const [importType, setImportType] = useState<WalletImport["type"]>("privateKey");
+  const [importText, setImportText] = useState("");
+  const [derivationPath, setDerivationPath] = useState(DEFAULT_DERIVATION_PATH);
+  const [keystoreJson, setKeystoreJson] = useState<string | null>(null);
+  const [keystorePassword, setKeystorePassword] = useState("");
+  const [parentId, setParentId] = useState<string | null>(null);
+  const hdWallets = unlockedWallets.filter((wallet) => wallet.hd);
+  const parentWallet = hdWallets.find((wallet) => wallet.id === parentId) ?? hdWallets[0] ?? null;
 
-  // Check for existing wallet on mount
+  // Check the selected wallet - it stays locked until the user unlocks it
   useEffect(() => {
     if (mainAccount?.address) {
-      const existingWallet = loadAgentWallet(mainAccount.address);
-      if (existingWallet) {
-        setAgentAddress(existingWallet.address);
-        onAgentWalletReady(existingWallet);
+      // Just created here, or already unlocked by the dashboard
+      if (unlockedWallet && unlockedWallet.id === walletId) return;
+      if (agentWallet && agentWallet.id === walletId) {
+        setUnlockedWallet(agentWallet);
+        setAgentAddress(agentWallet.address);
         setStep("ready");
-      } else if (hasAgentWallet()) {
-        // Wallet exists but couldn't decrypt (different user?)
-        setAgentAddress(getAgentWalletAddress());
-        setStep("wallet-created");
+        return;
+      }
+
+      const walletData = walletId ? getAgentWalletData(walletId) : null;
+      setUnlockedWallet(null);
+      setError(null);
+      setNotice(null);
+      if (!walletData) {
+        setAgentAddress(null);
+        setAgentBalance(BigInt(0));
+        setStep("no-wallet");
+      } else if (isLegacyWalletData(walletData)) {
+        setAgentAddress(walletData.address);
+        setStep("migrate");
+      } else {
+        setAgentAddress(walletData.address);
+        setKeySource(walletData.keySource);
+        setStep("locked");
       }
     }
-  }, [mainAccount?.address]);
+  }, [mainAccount?.address, walletId, agentWallet, unlockedWallet]);
+
+  /**
+   * Encryption secret for the chosen key source, prompting a signature if needed
+   */
+  const getSecret = async (source: KeySource, isNew: boolean): Promise<string> => {
+    if (source === "signature") {
+      return getSignatureSecret(mainAccount!);
+    }
+    if (isNew && passphrase.length < WALLET_ENCRYPTION.MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${WALLET_ENCRYPTION.MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    return passphrase;
+  };
+
+  // New wallets start with the default policy, so the agent can't sign anything unlimited
+  const ensurePolicy = (wallet: AgentWallet) => {
+    if (!loadAuthorization(wallet.address)) {
+      authorizeAgent(wallet.address, defaultAgentPolicy());
+    }
+  };
+
+  const handleWalletUnlocked = (wallet: AgentWallet) => {
+    ensurePolicy(wallet);
+    setUnlockedWallet(wallet);
+    setAgentAddress(wallet.address);
+    setPassphrase("");
+    setError(null);
+    onAgentWalletReady(wallet);
+    setStep("ready");
+  };
 
   // Fetch balances
   useEffect(() => {
@@ -68,12 +157,9 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
           setAgentBalance(balance);
           
           // If agent has balance and we're waiting to fund, mark as ready
-          if (balance > BigInt(0) && (step === "wallet-created" || step === "funding")) {
-            const wallet = loadAgentWallet(mainAccount!.address);
-            if (wallet) {
-              onAgentWalletReady(wallet);
-              setStep("ready");
-            }
+          if (balance > BigInt(0) && (step === "wallet-created" || step === "funding") && unlockedWallet) {
+            onAgentWalletReady(unlockedWallet);
+            setStep("ready");
           }
           
           // If agent has NO balance and we're "ready", go back to funding step
@@ -95,18 +181,88 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
     fetchBalances();
     const interval = setInterval(fetchBalances, 5000);
     return () => clearInterval(interval);
-  }, [agentAddress, mainAccount?.address, step]);
+  }, [agentAddress, mainAccount?.address, step, unlockedWallet]);
 
   const handleCreateWallet = async () => {
     if (!mainAccount?.address) return;
     
     setIsCreating(true);
+    setError(null);
+    setNotice(null);
     try {
-      const wallet = await createAgentWallet(mainAccount.address, client);
+      const secret = await getSecret(keySource, true);
+      const name = walletName.trim();
+      let wallet: AgentWallet;
+      if (createMode === "restore") {
+        if (!keystoreJson) throw new Error("Choose a backup file");
+        const restored = await restoreAgentWallet(keystoreJson, keystorePassword, secret, keySource, client);
+        wallet = restored.wallet;
+        setNotice(restored.policyWarning);
+      } else if (createMode === "import") {
+        wallet = await importAgentWallet(name, getWalletImport(), secret, keySource, client);
+      } else if (createMode === "derive" && parentWallet) {
+        wallet = await deriveAgentWallet(parentWallet, name, secret, keySource, client);
+      } else {
+        wallet = await createAgentWallet(name, secret, keySource, client);
+      }
+      ensurePolicy(wallet);
+      setUnlockedWallet(wallet);
       setAgentAddress(wallet.address);
+      setPassphrase("");
+      setWalletName("");
+      setImportText("");
+      setKeystoreJson(null);
+      setKeystorePassword("");
       setStep("wallet-created");
+      onWalletsChanged();
     } catch (error) {
       console.error("Failed to create agent wallet:", error);
+      setError(error instanceof Error ? error.message : "Failed to create agent wallet");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const getWalletImport = (): WalletImport => {
+    if (importType === "keystore") {
+      if (!keystoreJson) throw new Error("Choose a keystore file");
+      return { type: "keystore", json: keystoreJson, password: keystorePassword };
+    }
+    if (importType === "mnemonic") {
+      return { type: "mnemonic", mnemonic: importText, path: derivationPath.trim() };
+    }
+    return { type: "privateKey", privateKey: importText };
+  };
+
+  const handleUnlockWallet = async () => {
+    if (!mainAccount?.address || !walletId) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const wallet = await unlockAgentWallet(walletId, await getSecret(keySource, false));
+      if (wallet) handleWalletUnlocked(wallet);
+    } catch (error) {
+      console.error("Failed to unlock agent wallet:", error);
+      setError(error instanceof Error ? error.message : "Failed to unlock agent wallet");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleMigrateWallet = async () => {
+    if (!mainAccount?.address || !walletId) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const secret = await getSecret(keySource, true);
+      const wallet = await migrateLegacyAgentWallet(walletId, mainAccount.address, secret, keySource, client);
+      handleWalletUnlocked(wallet);
+      onWalletsChanged();
+    } catch (error) {
+      console.error("Failed to migrate agent wallet:", error);
+      setError(error instanceof Error ? error.message : "Failed to migrate agent wallet");
     } finally {
       setIsCreating(false);
     }
@@ -118,8 +274,8 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
     try {
       const contract = getContract({
         client,
-        chain: avalancheFuji,
-        address: USDC_FUJI_ADDRESS,
+        chain: ACTIVE_NETWORK.chain,
+        address: ACTIVE_NETWORK.usdc.address,
       });
 
       const transaction = prepareContractCall({
@@ -144,19 +300,139 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
 
   const handleDeleteWallet = () => {
     if (confirm("Are you sure? This will delete your agent wallet. Make sure to withdraw any remaining funds first.")) {
-      deleteAgentWallet();
+      if (agentAddress) deleteAuthorization(agentAddress);
+      if (walletId) deleteAgentWallet(walletId);
+      setUnlockedWallet(null);
       setAgentAddress(null);
       setAgentBalance(BigInt(0));
       setStep("no-wallet");
+      onWalletsChanged();
     }
   };
 
   const formatBudget = (amount: number) => `$${(amount / 1_000_000).toFixed(2)}`;
   const shortAddress = agentAddress ? `${agentAddress.slice(0, 6)}...${agentAddress.slice(-4)}` : "";
 
-  // Already ready - show minimal info
+  const passphraseInput = (
+    <input
+      type="password"
+      value={passphrase}
+      onChange={(e) => setPassphrase(e.target.value)}
+      placeholder="Passphrase"
+      autoComplete={step === "locked" ? "current-password" : "new-password"}
+      className="w-full px-3 py-2 text-sm border border-amber-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+    />
+  );
+
+  const keySourcePicker = (
+    <div className="bg-white/60 rounded-lg p-3 space-y-2 text-sm">
+      <p className="font-medium text-amber-900">Protect the private key with</p>
+      <label className="flex items-center gap-2">
+        <input
+          type="radio"
+          checked={keySource === "signature"}
+          onChange={() => setKeySource("signature")}
+          className="accent-amber-600"
+        />
+        <span>A signature from your main wallet</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="radio"
+          checked={keySource === "passphrase"}
+          onChange={() => setKeySource("passphrase")}
+          className="accent-amber-600"
+        />
+        <span>A passphrase (at least {WALLET_ENCRYPTION.MIN_PASSPHRASE_LENGTH} characters)</span>
+      </label>
+      {keySource === "passphrase" && passphraseInput}
+    </div>
+  );
+
+  // Keystore file and its password, shared by keystore imports and backup restores
+  const keystoreInputs = (
+    <>
+      <input
+        type="file"
+        accept="application/json,.json"
+        onChange={async (e) => {
+          const file = e.target.files?.[0];
+          setKeystoreJson(file ? await file.text() : null);
+        }}
+        className="w-full text-xs"
+      />
+      <input
+        type="password"
+        value={keystorePassword}
+        onChange={(e) => setKeystorePassword(e.target.value)}
+        placeholder={createMode === "restore" ? "Backup password" : "Keystore password"}
+        autoComplete="off"
+        className="w-full px-2 py-1 text-sm border border-amber-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+      />
+    </>
+  );
+
+  const importForm = (
+    <div className="bg-white/60 rounded-lg p-3 space-y-2 text-sm">
+      <select
+        value={importType}
+        onChange={(e) => setImportType(e.target.value as WalletImport["type"])}
+        className="w-full px-2 py-1 border border-amber-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+      >
+        <option value="privateKey">Private key</option>
+        <option value="mnemonic">Recovery phrase (BIP-39)</option>
+        <option value="keystore">Keystore file (JSON)</option>
+      </select>
+
+      {importType !== "keystore" && (
+        <textarea
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          placeholder={importType === "privateKey" ? "0x..." : "12 or 24 words"}
+          rows={2}
+          autoComplete="off"
+          spellCheck={false}
+          className="w-full px-2 py-1 font-mono text-xs border border-amber-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+        />
+      )}
+
+      {importType === "mnemonic" && (
+        <label className="block space-y-1">
+          <span className="text-xs text-slate-600">Derivation path</span>
+          <input
+            type="text"
+            value={derivationPath}
+            onChange={(e) => setDerivationPath(e.target.value)}
+            className="w-full px-2 py-1 font-mono text-xs border border-amber-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+        </label>
+      )}
+
+      {importType === "keystore" && keystoreInputs}
+    </div>
+  );
+
+  const deleteButton = (
+    <button
+      onClick={handleDeleteWallet}
+      className="text-xs text-red-500 hover:text-red-700 underline"
+    >
+      Delete agent wallet
+    </button>
+  );
+
+  // Already ready - only the policy, the dashboard shows the wallet info
   if (agentWallet && agentBalance > BigInt(0)) {
-    return null; // Dashboard will show the wallet info
+    return (
+      <Card className="border-amber-200 bg-gradient-to-br from-amber-50 to-orange-50">
+        <CardContent className="pt-4">
+          <div className="space-y-3">
+            <AuthorizationPolicy walletAddress={agentWallet.address} />
+            <WalletBackup wallet={agentWallet} />
+          </div>
+        </CardContent>
+      </Card>
+    );
   }
 
   return (
@@ -165,6 +441,8 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
         <CardTitle className="text-lg text-amber-900 flex items-center gap-2">
           <span className="text-2xl">🤖</span>
           {step === "no-wallet" && "Create Agent Wallet"}
+          {step === "locked" && "Unlock Agent Wallet"}
+          {step === "migrate" && "Upgrade Agent Wallet Encryption"}
           {step === "wallet-created" && "Fund Your Agent"}
           {step === "funding" && "Funding..."}
           {step === "ready" && "Agent Ready"}
@@ -183,7 +461,7 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
             <div className="bg-white/60 rounded-lg p-3 space-y-2 text-sm">
               <div className="flex items-center gap-2">
                 <span className="text-emerald-500">1.</span>
-                <span>Create agent wallet (one-time)</span>
+                <span>Create a named agent wallet (one per agent)</span>
               </div>
               <div className="flex items-center gap-2">
                 <span className="text-emerald-500">2.</span>
@@ -195,16 +473,76 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
               </div>
             </div>
 
+            <div className="flex gap-1">
+              {(["new", "import", ...(hdWallets.length > 0 ? ["derive"] : []), "restore"] as CreateMode[]).map((mode) => (
+                <Button
+                  key={mode}
+                  variant={createMode === mode ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setCreateMode(mode)}
+                  className={createMode === mode ? "bg-amber-600 hover:bg-amber-700" : ""}
+                >
+                  {mode === "new" ? "New key" : mode === "import" ? "Import" : mode === "derive" ? "From seed" : "Restore"}
+                </Button>
+              ))}
+            </div>
+
+            {createMode !== "restore" && (
+              <input
+                type="text"
+                value={walletName}
+                onChange={(e) => setWalletName(e.target.value)}
+                placeholder="Wallet name, e.g. Research"
+                className="w-full px-3 py-2 text-sm border border-amber-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            )}
+
+            {createMode === "import" && importForm}
+
+            {createMode === "restore" && (
+              <div className="bg-white/60 rounded-lg p-3 space-y-2 text-sm">
+                <p className="text-xs text-slate-500">
+                  Restores a wallet from its backup file, with its name and authorization policy.
+                </p>
+                {keystoreInputs}
+              </div>
+            )}
+
+            {createMode === "derive" && parentWallet?.hd && (
+              <div className="bg-white/60 rounded-lg p-3 space-y-2 text-sm">
+                <select
+                  value={parentWallet.id}
+                  onChange={(e) => setParentId(e.target.value)}
+                  className="w-full px-2 py-1 border border-amber-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+                >
+                  {hdWallets.map((wallet) => (
+                    <option key={wallet.id} value={wallet.id}>
+                      Recovery phrase of {wallet.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500">
+                  Derives the next account, {nextDerivationPath(parentWallet.hd.seedId)}
+                </p>
+              </div>
+            )}
+
+            {keySourcePicker}
+
             <Button
               onClick={handleCreateWallet}
-              disabled={isCreating || !mainAccount}
+              disabled={isCreating || !mainAccount || (createMode === "restore" ? !keystoreJson : !walletName.trim())}
               className="w-full bg-amber-600 hover:bg-amber-700"
             >
               {isCreating ? (
                 <span className="flex items-center gap-2">
                   <span className="animate-spin">◌</span>
-                  Creating Wallet...
+                  {createMode === "import" ? "Importing Wallet..." : createMode === "restore" ? "Restoring Wallet..." : "Creating Wallet..."}
                 </span>
+              ) : createMode === "import" ? (
+                "Import Agent Wallet"
+              ) : createMode === "restore" ? (
+                "Restore Agent Wallet"
               ) : (
                 "Create Agent Wallet"
               )}
@@ -212,6 +550,49 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
           </>
         )}
 
+        {/* Stored wallet - unlock it with its passphrase or signature */}
+        {step === "locked" && (
+          <>
+            <p className="text-sm text-amber-800">
+              Your agent wallet {shortAddress} is encrypted.{" "}
+              {keySource === "signature"
+                ? "Sign the unlock message with your main wallet to decrypt it."
+                : "Enter its passphrase to decrypt it."}
+            </p>
+            {keySource === "passphrase" && passphraseInput}
+            <Button
+              onClick={handleUnlockWallet}
+              disabled={isCreating || !mainAccount || (keySource === "passphrase" && !passphrase)}
+              className="w-full bg-amber-600 hover:bg-amber-700"
+            >
+              {isCreating ? "Unlocking..." : "Unlock Agent Wallet"}
+            </Button>
+            {deleteButton}
+          </>
+        )}
+
+        {/* Legacy wallet - re-encrypt it before use */}
+        {step === "migrate" && (
+          <>
+            <p className="text-sm text-amber-800">
+              Your agent wallet {shortAddress} was stored with an older, insecure format that anyone with
+              access to this browser could read. Choose how to protect it - it is re-encrypted with AES-GCM.
+            </p>
+            {keySourcePicker}
+            <Button
+              onClick={handleMigrateWallet}
+              disabled={isCreating || !mainAccount}
+              className="w-full bg-amber-600 hover:bg-amber-700"
+            >
+              {isCreating ? "Encrypting..." : "Encrypt Agent Wallet"}
+            </Button>
+            {deleteButton}
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-600 bg-red-50 rounded p-2">{error}</p>}
+        {notice && <p className="text-xs text-amber-800 bg-amber-100 rounded p-2">⚠️ {notice}</p>}
+
         {/* Step 2: Wallet created - Fund it */}
         {(step === "wallet-created" || step === "funding") && agentAddress && (
           <>
@@ -275,7 +656,10 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
 
                 {mainBalance < BigInt(100000) && (
                   <p className="text-xs text-red-600 bg-red-50 rounded p-2">
-                    Your main wallet needs USDC. Get testnet USDC from the Avalanche Fuji faucet.
+                    Your main wallet needs USDC on {ACTIVE_NETWORK.name}.
+                    {ACTIVE_NETWORK.faucetUrl && (
+                      <> Get testnet USDC from the <a href={ACTIVE_NETWORK.faucetUrl} target="_blank" rel="noreferrer" className="underline">faucet</a>.</>
+                    )}
                   </p>
                 )}
               </>
@@ -289,18 +673,17 @@ export function AuthorizationPanel({ onAgentWalletReady, agentWallet }: Authoriz
               </div>
             )}
 
-            <button
-              onClick={handleDeleteWallet}
-              className="text-xs text-red-500 hover:text-red-700 underline"
-            >
-              Delete agent wallet
-            </button>
+            <AuthorizationPolicy walletAddress={agentAddress} />
+
+            {unlockedWallet && <WalletBackup wallet={unlockedWallet} />}
+
+            {deleteButton}
           </>
         )}
 
         {/* Warning */}
         <p className="text-xs text-amber-700 bg-amber-100/50 rounded p-2">
-          ⚠️ Agent wallet is a hot wallet. Private key is stored encrypted in your browser.
+          ⚠️ Agent wallet is a hot wallet. Private key is stored encrypted (AES-GCM) in your browser.
           Only fund with amounts you're comfortable spending.
         </p>
       </CardContent>
@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  AgentAuthorization,
+  AgentPolicy,
+  authorizeAgent,
+  createDefaultPolicy,
+  formatBudget,
+  loadAuthorization,
+  spentInLastHour,
+  totalSpent,
+  validatePolicy,
+} from "@/lib/agent-authorization";
+import { API_ENDPOINTS, AGENT_AUTHORIZATION } from "@/lib/constants";
+
+/**
+ * Default policy for the demo: only the agent endpoint of this site, paying the configured merchant
+ */
+export function defaultAgentPolicy(): AgentPolicy {
+  const merchant = process.env.NEXT_PUBLIC_MERCHANT_WALLET_ADDRESS;
+  return createDefaultPolicy(
+    [`${window.location.origin}${API_ENDPOINTS.AGENT}`],
+    merchant ? [merchant] : []
+  );
+}
+
+interface PolicyForm {
+  budget: string;
+  maxPerCall: string;
+  maxPerHour: string;
+  expiryHours: string;
+  allowedPayTo: string;
+  allowedResources: string;
+}
+
+function toForm(policy: AgentPolicy): PolicyForm {
+  const hoursLeft = Math.max(1, Math.round((policy.expiresAt - Date.now()) / 3_600_000));
+  return {
+    budget: String(policy.totalBudget / 1_000_000),
+    maxPerCall: String(policy.maxPerCall / 1_000_000),
+    maxPerHour: String(policy.maxPerHour / 1_000_000),
+    expiryHours: String(hoursLeft),
+    allowedPayTo: policy.allowedPayTo.join("\n"),
+    allowedResources: policy.allowedResources.join("\n"),
+  };
+}
+
+function fromForm(form: PolicyForm): AgentPolicy {
+  const lines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+  return {
+    expiresAt: Date.now() + Number(form.expiryHours) * 3_600_000,
+    totalBudget: Math.round(Number(form.budget) * 1_000_000),
+    maxPerCall: Math.round(Number(form.maxPerCall) * 1_000_000),
+    maxPerHour: Math.round(Number(form.maxPerHour) * 1_000_000),
+    allowedPayTo: lines(form.allowedPayTo),
+    allowedResources: lines(form.allowedResources),
+  };
+}
+
+interface AuthorizationPolicyProps {
+  walletAddress: string;
+}
+
+/**
+ * Summary and editor of an agent wallet's authorization policy
+ */
+export function AuthorizationPolicy({ walletAddress }: AuthorizationPolicyProps) {
+  const [authorization, setAuthorization] = useState<AgentAuthorization | null>(null);
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Reload to pick up payments the agent records
+  useEffect(() => {
+    const refresh = () => {
+      setAuthorization(loadAuthorization(walletAddress));
+      setNow(Date.now());
+    };
+    refresh();
+    const interval = setInterval(refresh, 5000);
+    return () => clearInterval(interval);
+  }, [walletAddress]);
+
+  const handleSave = () => {
+    if (!form) return;
+    const policy = fromForm(form);
+    const validationError = validatePolicy(policy);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setAuthorization(authorizeAgent(walletAddress, policy));
+    setForm(null);
+    setError(null);
+  };
+
+  const policy = authorization?.policy;
+  const isExpired = policy ? now >= policy.expiresAt : false;
+  const minutesLeft = policy ? Math.max(0, Math.round((policy.expiresAt - now) / 60_000)) : 0;
+
+  return (
+    <div className="bg-white/60 rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-amber-900">Authorization Policy</span>
+        {!form && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setForm(toForm(policy && !isExpired ? policy : defaultAgentPolicy()))}
+          >
+            {!policy ? "Set up" : isExpired ? "Renew" : "Edit"}
+          </Button>
+        )}
+      </div>
+
+      {!form && !policy && (
+        <p className="text-xs text-red-600">No policy set - the agent can&apos;t sign any payment.</p>
+      )}
+
+      {!form && authorization && policy && (
+        <div className="space-y-1 text-xs text-slate-600">
+          <div className="flex justify-between">
+            <span>Spent</span>
+            <span>{formatBudget(totalSpent(authorization))} of {formatBudget(policy.totalBudget)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Last hour</span>
+            <span>{formatBudget(spentInLastHour(authorization, now))} of {formatBudget(policy.maxPerHour)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Max per call</span>
+            <span>{formatBudget(policy.maxPerCall)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Expires</span>
+            <span className={isExpired ? "text-red-600" : ""}>
+              {isExpired
+                ? "Expired"
+                : minutesLeft < 60
+                  ? `in ${minutesLeft} min`
+                  : new Date(policy.expiresAt).toLocaleString()}
+            </span>
+          </div>
+          <div className="flex justify-between gap-2">
+            <span>Recipients</span>
+            <span className="truncate font-mono">
+              {policy.allowedPayTo.length > 0 ? policy.allowedPayTo.join(", ") : "Any"}
+            </span>
+          </div>
+          <div className="flex justify-between gap-2">
+            <span>Resources</span>
+            <span className="truncate font-mono">
+              {policy.allowedResources.length > 0 ? policy.allowedResources.join(", ") : "Any"}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {form && (
+        <div className="space-y-2 text-xs">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span className="text-slate-600">Total budget $ (max {formatBudget(AGENT_AUTHORIZATION.MAX_BUDGET)})</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.budget}
+                onChange={(e) => setForm({ ...form, budget: e.target.value })}
+                className="w-full px-2 py-1 border border-amber-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-slate-600">Expires in (hours)</span>
+              <input
+                type="number"
+                min="1"
+                max={AGENT_AUTHORIZATION.MAX_EXPIRY_HOURS}
+                value={form.expiryHours}
+                onChange={(e) => setForm({ ...form, expiryHours: e.target.value })}
+                className="w-full px-2 py-1 border border-amber-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-slate-600">Max per call $</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.maxPerCall}
+                onChange={(e) => setForm({ ...form, maxPerCall: e.target.value })}
+                className="w-full px-2 py-1 border border-amber-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-slate-600">Max per hour $</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.maxPerHour}
+                onChange={(e) => setForm({ ...form, maxPerHour: e.target.value })}
+                className="w-full px-2 py-1 border border-amber-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </label>
+          </div>
+          <label className="block space-y-1">
+            <span className="text-slate-600">Allowed recipients (payTo), one per line, empty for any</span>
+            <textarea
+              value={form.allowedPayTo}
+              onChange={(e) => setForm({ ...form, allowedPayTo: e.target.value })}
+              rows={2}
+              placeholder="0x..."
+              className="w-full px-2 py-1 font-mono border border-amber-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-slate-600">Allowed resource URLs, one per line, empty for any</span>
+            <textarea
+              value={form.allowedResources}
+              onChange={(e) => setForm({ ...form, allowedResources: e.target.value })}
+              rows={2}
+              placeholder="https://..."
+              className="w-full px-2 py-1 font-mono border border-amber-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+          </label>
+          {error && <p className="text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} className="bg-amber-600 hover:bg-amber-700">
+              Save Policy
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => { setForm(null); setError(null); }}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
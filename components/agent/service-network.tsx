@@ -2,7 +2,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatBudget } from "@/lib/agent-authorization";
-import { AGENT_AUTHORIZATION } from "@/lib/constants";
+import { ROUTE_PRICING } from "@/lib/pricing";
 
 export interface ServiceCall {
   id: string;
@@ -15,6 +15,12 @@ export interface ServiceCall {
   cost: number;
   timestamp: Date;
   status: "pending" | "success" | "error";
+  /** false when the service failed before settling the payment */
+  charged?: boolean;
+  /** Settlement transaction hash */
+  transaction?: string;
+  /** Why the payment was not signed, when the authorization policy blocked it */
+  blockedReason?: string;
 }
 
 interface ServiceNetworkProps {
@@ -38,7 +44,7 @@ export function ServiceNetwork({ serviceCalls, totalEarned, isProcessing }: Serv
               <CardTitle className="text-base">Price Oracle Agent</CardTitle>
             </div>
             <span className="text-xs font-medium text-emerald-600 bg-emerald-100 px-2 py-1 rounded-full">
-              {formatBudget(AGENT_AUTHORIZATION.SERVICE_COST)}/call
+              {formatBudget(ROUTE_PRICING.AGENT.amount)}/call
             </span>
           </div>
         </CardHeader>
@@ -139,6 +145,9 @@ export function ServiceNetwork({ serviceCalls, totalEarned, isProcessing }: Serv
                   <span>Price Oracle ({call.token})</span>
                   {call.status === "pending" && <span className="animate-pulse">...</span>}
                   {call.status === "success" && <span className="text-emerald-500">✓</span>}
+                  {call.status === "error" && call.charged === false && (
+                    <span className="text-slate-400">(not charged)</span>
+                  )}
                 </div>
               ))}
             </div>
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { exportAgentWallet, AgentWallet } from "@/lib/agent-wallet";
+import { downloadFile } from "@/lib/download";
+import { WALLET_ENCRYPTION } from "@/lib/constants";
+
+interface WalletBackupProps {
+  wallet: AgentWallet;
+}
+
+/**
+ * Download a password-protected backup file of an unlocked agent wallet
+ */
+export function WalletBackup({ wallet }: WalletBackupProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setPassword("");
+    setConfirmPassword("");
+    setError(null);
+  };
+
+  const handleExport = async () => {
+    if (password.length < WALLET_ENCRYPTION.MIN_PASSPHRASE_LENGTH) {
+      setError(`Password must be at least ${WALLET_ENCRYPTION.MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const json = await exportAgentWallet(wallet, password);
+      const slug = wallet.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      downloadFile(`agent-wallet-${slug || "backup"}-${wallet.address.slice(2, 10)}.json`, json, "application/json");
+      handleClose();
+    } catch (error) {
+      console.error("Failed to export agent wallet:", error);
+      setError(error instanceof Error ? error.message : "Failed to export agent wallet");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/60 rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-amber-900">Backup</span>
+        {!isOpen && (
+          <Button variant="ghost" size="sm" onClick={() => setIsOpen(true)}>
+            Download
+          </Button>
+        )}
+      </div>
+
+      {!isOpen && (
+        <p className="text-xs text-slate-600">
+          Keep a backup file so clearing browser storage doesn&apos;t lose the funds in this wallet.
+        </p>
+      )}
+
+      {isOpen && (
+        <div className="space-y-2 text-xs">
+          <p className="text-slate-600">
+            The key is encrypted as a standard keystore file, which other wallets can import too.
+            The name and authorization policy are stored alongside it unencrypted.
+          </p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Backup password"
+            autoComplete="new-password"
+            className="w-full px-2 py-1 text-sm border border-amber-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            placeholder="Confirm password"
+            autoComplete="new-password"
+            className="w-full px-2 py-1 text-sm border border-amber-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          {error && <p className="text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={handleExport}
+              disabled={isExporting || !password}
+              className="bg-amber-600 hover:bg-amber-700"
+            >
+              {isExporting ? "Encrypting..." : "Download Backup"}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleClose} disabled={isExporting}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import {
   getUSDCBalance,
   formatUSDCBalance,
 } from "@/lib/agent-wallet";
+import { ACTIVE_NETWORK } from "@/lib/constants";
+import { WalletSwitcher, WalletSwitcherProps } from "./wallet-switcher";
 
 const client = createThirdwebClient({
   clientId: process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID!,
@@ -17,6 +19,9 @@ const client = createThirdwebClient({
 
 interface WalletBalanceProps {
   agentWalletAddress: string | null;
+  walletName?: string;
+  /** Shows the wallet switcher when set */
+  switcher?: WalletSwitcherProps;
   onRefresh?: () => void;
   onWithdraw?: () => void;
   showWithdraw?: boolean;
@@ -24,6 +29,8 @@ interface WalletBalanceProps {
 
 export function WalletBalance({
   agentWalletAddress,
+  walletName,
+  switcher,
   onRefresh,
   onWithdraw,
   showWithdraw = true,
@@ -75,7 +82,7 @@ export function WalletBalance({
         <div className="flex items-center justify-between">
           <CardTitle className="text-base flex items-center gap-2">
             <span className="text-xl">🤖</span>
-            Agent Wallet
+            {walletName ? `${walletName} Wallet` : "Agent Wallet"}
           </CardTitle>
           <Button
             variant="ghost"
@@ -89,13 +96,20 @@ export function WalletBalance({
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
+        {switcher && <WalletSwitcher {...switcher} />}
+
         {/* Agent Wallet Info */}
         <div className="bg-white/60 rounded-lg p-3 space-y-2">
           <div className="flex items-center justify-between text-sm">
             <span className="text-slate-600">Address:</span>
-            <code className="text-xs bg-slate-100 px-2 py-1 rounded font-mono">
+            <a
+              href={`${ACTIVE_NETWORK.explorerUrl}/address/${agentWalletAddress}`}
+              target="_blank"
+              rel="noreferrer"
+              className="text-xs bg-slate-100 px-2 py-1 rounded font-mono hover:bg-slate-200"
+            >
               {shortAddress}
-            </code>
+            </a>
           </div>
           <div className="flex items-center justify-between">
             <span className="text-sm text-slate-600">USDC Balance:</span>
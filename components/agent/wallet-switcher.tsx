@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { AgentWalletData } from "@/lib/agent-wallet";
+
+export interface WalletSwitcherProps {
+  /** All stored wallets, archived ones included */
+  wallets: AgentWalletData[];
+  /** Selected wallet, null while creating a new one */
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onArchive: (id: string) => void;
+  onRestore: (id: string) => void;
+  disabled?: boolean;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Select, create and archive the named agent wallets
+ */
+export function WalletSwitcher({
+  wallets,
+  selectedId,
+  onSelect,
+  onNew,
+  onArchive,
+  onRestore,
+  disabled,
+}: WalletSwitcherProps) {
+  const [showArchived, setShowArchived] = useState(false);
+  const active = wallets.filter((wallet) => !wallet.archivedAt);
+  const archived = wallets.filter((wallet) => wallet.archivedAt);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId ?? ""}
+          onChange={(e) => e.target.value && onSelect(e.target.value)}
+          disabled={disabled}
+          className="flex-1 min-w-0 px-2 py-1 text-sm border border-slate-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:bg-slate-50"
+        >
+          {selectedId === null && <option value="">New wallet…</option>}
+          {active.map((wallet) => (
+            <option key={wallet.id} value={wallet.id}>
+              {wallet.name} ({shortAddress(wallet.address)})
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={onNew} disabled={disabled || selectedId === null}>
+          + New
+        </Button>
+        {selectedId && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onArchive(selectedId)}
+            disabled={disabled}
+            className="text-slate-500"
+          >
+            Archive
+          </Button>
+        )}
+      </div>
+
+      {archived.length > 0 && (
+        <div className="text-xs text-slate-500">
+          <button type="button" onClick={() => setShowArchived(!showArchived)} className="hover:text-slate-700">
+            {showArchived ? "Hide" : "Show"} archived ({archived.length})
+          </button>
+          {showArchived && (
+            <div className="mt-1 space-y-1">
+              {archived.map((wallet) => (
+                <div key={wallet.id} className="flex items-center gap-2">
+                  <span className="flex-1 truncate">
+                    {wallet.name} ({shortAddress(wallet.address)})
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => onRestore(wallet.id)}
+                    disabled={disabled}
+                    className="text-emerald-600 hover:underline"
+                  >
+                    Restore
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
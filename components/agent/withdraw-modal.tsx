@@ -4,20 +4,22 @@ import { useState, useEffect } from "react";
 import { createThirdwebClient, prepareContractCall, getContract, sendTransaction, prepareTransaction } from "thirdweb";
 import { privateKeyToAccount } from "thirdweb/wallets";
 import { useSendTransaction } from "thirdweb/react";
-import { avalancheFuji } from "thirdweb/chains";
+import { eth_getBalance, getRpcClient } from "thirdweb/rpc";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { USDC_FUJI_ADDRESS } from "@/lib/constants";
+import { ACTIVE_NETWORK } from "@/lib/constants";
 import { AgentWallet, formatUSDCBalance } from "@/lib/agent-wallet";
 
 const client = createThirdwebClient({
   clientId: process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID!,
 });
 
-// Minimum AVAX needed for gas (0.002 AVAX is plenty for ERC20 transfer)
-const MIN_GAS_AVAX = BigInt("2000000000000000"); // 0.002 AVAX in wei
-// Amount to send when funding gas (0.01 AVAX)
-const GAS_FUND_AMOUNT = BigInt("10000000000000000"); // 0.01 AVAX in wei
+// Native gas token of the active network (AVAX, ETH, ...)
+const GAS_SYMBOL = ACTIVE_NETWORK.nativeSymbol;
+// Minimum native token needed for gas (0.002 is plenty for ERC20 transfer)
+const MIN_GAS_BALANCE = BigInt("2000000000000000"); // 0.002 in wei
+// Amount to send when funding gas (0.01)
+const GAS_FUND_AMOUNT = BigInt("10000000000000000"); // 0.01 in wei
 
 interface WithdrawModalProps {
   agentWallet: AgentWallet;
@@ -37,34 +39,24 @@ export function WithdrawModal({
   const { mutate: sendTx, isPending: isSendingGas } = useSendTransaction();
   const [isWithdrawing, setIsWithdrawing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [agentAvaxBalance, setAgentAvaxBalance] = useState<bigint>(BigInt(0));
+  const [agentGasBalance, setAgentGasBalance] = useState<bigint>(BigInt(0));
   const [needsGas, setNeedsGas] = useState(false);
   const [gasSent, setGasSent] = useState(false);
 
-  // Check agent wallet's AVAX balance for gas
-  const checkAvaxBalance = async () => {
+  // Check agent wallet's native token balance for gas
+  const checkGasBalance = async () => {
     try {
-      // Use direct RPC call for more reliable results
-      const rpcResponse = await fetch("https://api.avax-test.network/ext/bc/C/rpc", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0",
-          method: "eth_getBalance",
-          params: [agentWallet.address, "latest"],
-          id: 1,
-        }),
+      // Direct RPC call for the active network
+      const rpcRequest = getRpcClient({ client, chain: ACTIVE_NETWORK.chain });
+      const balance = await eth_getBalance(rpcRequest, {
+        address: agentWallet.address as `0x${string}`,
       });
-      const rpcData = await rpcResponse.json();
-      if (rpcData.result) {
-        const balance = BigInt(rpcData.result);
-        console.log("Agent AVAX balance:", balance.toString());
-        setAgentAvaxBalance(balance);
-        setNeedsGas(balance < MIN_GAS_AVAX);
-        return balance;
-      }
+      console.log(`Agent ${GAS_SYMBOL} balance:`, balance.toString());
+      setAgentGasBalance(balance);
+      setNeedsGas(balance < MIN_GAS_BALANCE);
+      return balance;
     } catch (err) {
-      console.error("Failed to check AVAX balance:", err);
+      console.error(`Failed to check ${GAS_SYMBOL} balance:`, err);
       // Fallback: assume needs gas if we can't check
       setNeedsGas(true);
     }
@@ -72,15 +64,15 @@ export function WithdrawModal({
   };
 
   useEffect(() => {
-    checkAvaxBalance();
+    checkGasBalance();
   }, [agentWallet.address]);
 
   const handleSendGasToAgent = async () => {
     setError(null);
     try {
-      // Send 0.01 AVAX from main wallet to agent wallet for gas
+      // Send 0.01 native token from main wallet to agent wallet for gas
       const transaction = prepareTransaction({
-        chain: avalancheFuji,
+        chain: ACTIVE_NETWORK.chain,
         client,
         to: agentWallet.address as `0x${string}`,
         value: GAS_FUND_AMOUNT,
@@ -96,17 +88,17 @@ export function WithdrawModal({
           const maxAttempts = 10;
           const pollInterval = setInterval(async () => {
             attempts++;
-            const balance = await checkAvaxBalance();
+            const balance = await checkGasBalance();
             console.log(`Checking balance attempt ${attempts}:`, balance.toString());
             
-            if (balance >= MIN_GAS_AVAX || attempts >= maxAttempts) {
+            if (balance >= MIN_GAS_BALANCE || attempts >= maxAttempts) {
               clearInterval(pollInterval);
             }
           }, 2000);
         },
         onError: (err) => {
           console.error("Failed to send gas:", err);
-          setError("Failed to send AVAX for gas. Make sure you have AVAX in your main wallet.");
+          setError(`Failed to send ${GAS_SYMBOL} for gas. Make sure you have ${GAS_SYMBOL} in your main wallet.`);
         },
       });
     } catch (err) {
@@ -131,8 +123,8 @@ export function WithdrawModal({
       // Get USDC contract
       const contract = getContract({
         client,
-        chain: avalancheFuji,
-        address: USDC_FUJI_ADDRESS,
+        chain: ACTIVE_NETWORK.chain,
+        address: ACTIVE_NETWORK.usdc.address,
       });
 
       // Prepare transfer transaction
@@ -161,7 +153,7 @@ export function WithdrawModal({
       
       // Check if it's a gas-related error
       if (errorMsg.toLowerCase().includes("gas") || errorMsg.toLowerCase().includes("funds")) {
-        setError("Insufficient AVAX for gas. Please send AVAX to agent wallet first.");
+        setError(`Insufficient ${GAS_SYMBOL} for gas. Please send ${GAS_SYMBOL} to agent wallet first.`);
         setNeedsGas(true);
       } else {
         setError(errorMsg);
@@ -173,7 +165,7 @@ export function WithdrawModal({
 
   const shortDestination = `${destinationAddress.slice(0, 6)}...${destinationAddress.slice(-4)}`;
   const shortAgentAddress = `${agentWallet.address.slice(0, 6)}...${agentWallet.address.slice(-4)}`;
-  const formatAvax = (wei: bigint) => `${(Number(wei) / 1e18).toFixed(4)} AVAX`;
+  const formatGas = (wei: bigint) => `${(Number(wei) / 1e18).toFixed(4)} ${GAS_SYMBOL}`;
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -201,10 +193,10 @@ export function WithdrawModal({
           {needsGas && (
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
               <p className="text-sm text-amber-800 font-medium">
-                ⛽ Agent wallet needs AVAX for gas
+                ⛽ Agent wallet needs {GAS_SYMBOL} for gas
               </p>
               <p className="text-xs text-amber-700">
-                The agent wallet has {formatAvax(agentAvaxBalance)} but needs at least ~0.002 AVAX for gas.
+                The agent wallet has {formatGas(agentGasBalance)} but needs at least ~0.002 {GAS_SYMBOL} for gas.
               </p>
               <Button
                 onClick={handleSendGasToAgent}
@@ -215,10 +207,10 @@ export function WithdrawModal({
                 {isSendingGas ? (
                   <span className="flex items-center gap-2">
                     <span className="animate-spin">◌</span>
-                    Sending AVAX...
+                    Sending {GAS_SYMBOL}...
                   </span>
                 ) : (
-                  "Send 0.01 AVAX for Gas"
+                  `Send 0.01 ${GAS_SYMBOL} for Gas`
                 )}
               </Button>
             </div>
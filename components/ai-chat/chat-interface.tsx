@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { createThirdwebClient } from "thirdweb";
 import { useActiveWallet } from "thirdweb/react";
 import { wrapFetchWithPayment } from "thirdweb/x402";
@@ -9,27 +9,97 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { MessageBubble } from "./message-bubble";
 import { TokenDisplay } from "./token-display";
+import { ConversationSidebar } from "@/components/conversation-sidebar";
+import { PersonaManager } from "./persona-manager";
 import { createNormalizedFetch } from "@/lib/payment";
-import { AVALANCHE_FUJI_CHAIN_ID, API_ENDPOINTS, TOKEN_PRICING } from "@/lib/constants";
-import { formatUSDCShort } from "@/lib/token-pricing";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { ROUTE_PRICING, CHAT_MODELS, DEFAULT_CHAT_MODEL, getChatModel, formatPriceAmount } from "@/lib/pricing";
+import { formatUSDCShort, estimateTokens } from "@/lib/token-pricing";
+import { readSSE } from "@/lib/sse";
+import { trimHistory, DEFAULT_CONTEXT_POLICY, ChatMessage } from "@/lib/chat-context";
+import type { ChatQuote } from "@/lib/chat-quote";
+import {
+  createChatBudget,
+  remainingBudget,
+  budgetWarning,
+  budgetMaxCost,
+  checkBudget,
+  reserveBudget,
+  settleBudget,
+} from "@/lib/chat-budget";
+import type { ChatBudget } from "@/lib/chat-budget";
+import { saveConversation, conversationTitle, conversationSpend } from "@/lib/conversation-store";
+import type { Conversation, ConversationMessage } from "@/lib/conversation-store";
+import { loadPersonas, savePersonas } from "@/lib/personas";
+import type { Persona } from "@/lib/personas";
 
 const client = createThirdwebClient({
   clientId: process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID!,
 });
 
-// Max cap for payment authorization - actual charge is based on token usage
-const MAX_PAYMENT = BigInt(TOKEN_PRICING.MAX_CHAT_PAYMENT); // $0.50
-
-interface Message {
-  id: string;
+interface Message extends ConversationMessage {
   role: "user" | "assistant";
-  content: string;
-  tokens?: {
-    inputTokens: number;
-    outputTokens: number;
-    totalTokens: number;
+  costBreakdown?: {
+    formattedContext: string;
+    formattedMessage: string;
   };
-  formattedCost?: string;
+  /** Still receiving tokens from the stream */
+  isStreaming?: boolean;
+  /** Stream was stopped at the max cap */
+  capped?: boolean;
+  maxAuthorized?: number;
+}
+
+function newConversation() {
+  return { id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+}
+
+const BUDGET_WARNING_STYLES = {
+  50: "bg-slate-50 border-slate-200 text-slate-600",
+  80: "bg-amber-50 border-amber-200 text-amber-800",
+  100: "bg-red-50 border-red-200 text-red-700",
+} as const;
+
+/**
+ * Previous turns sent as context, roughly trimmed to the policy
+ * The tokenizers are too large for the browser, so this uses the character estimate;
+ * the server trims again with the model's tokenizer before quoting
+ */
+function buildHistory(messages: Message[]): ChatMessage[] {
+  return trimHistory(
+    messages
+      .filter((m) => !m.isError && m.content)
+      .map(({ role, content }) => ({ role, content })),
+    { count: estimateTokens }
+  );
+}
+
+/**
+ * Get a pre-flight cost quote for a message (free, no payment)
+ * maxCost lowers the quoted cap to fit, e.g. the remaining session budget
+ * system is the persona's system prompt, quoted as part of the context
+ */
+async function fetchQuote(
+  message: string,
+  history: ChatMessage[],
+  model: string,
+  maxCost?: number,
+  system?: string,
+  signal?: AbortSignal
+): Promise<ChatQuote> {
+  const response = await fetch(API_ENDPOINTS.AI_CHAT_QUOTE, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ message, history, model, maxCost, system }),
+    signal,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to get quote");
+  }
+  return data;
 }
 
 export function ChatInterface() {
@@ -37,7 +107,98 @@ export function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [totalSpent, setTotalSpent] = useState(0);
+  const [budget, setBudget] = useState<ChatBudget>(() => createChatBudget());
+  const [budgetInput, setBudgetInput] = useState(budget.limit ? String(budget.limit / 1_000_000) : "");
+  const [modelId, setModelId] = useState(DEFAULT_CHAT_MODEL.id);
+  const model = getChatModel(modelId) ?? DEFAULT_CHAT_MODEL;
+  const [quote, setQuote] = useState<ChatQuote | null>(null);
+  const maxCost = budgetMaxCost(budget);
+  const warning = budgetWarning(budget);
+  const quoteCheck = quote ? checkBudget(budget, quote) : null;
+  const [conversation, setConversation] = useState(newConversation);
+  const [savedCount, setSavedCount] = useState(0);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [personaId, setPersonaId] = useState<string | null>(null);
+  const persona = personas.find((p) => p.id === personaId) ?? null;
+  const system = persona?.systemPrompt.trim() || undefined;
+
+  useEffect(() => {
+    setPersonas(loadPersonas());
+  }, []);
+
+  // Persist the conversation once no message is streaming
+  useEffect(() => {
+    if (messages.length === 0 || messages.some((m) => m.isStreaming)) return;
+
+    const record: Conversation<Message> = {
+      ...conversation,
+      kind: "chat",
+      title: conversationTitle(messages, "New chat"),
+      model: modelId,
+      messages,
+      totalSpent: conversationSpend(messages),
+      updatedAt: new Date().toISOString(),
+    };
+    saveConversation(record)
+      .then(() => setSavedCount((count) => count + 1))
+      .catch((error) => console.error("Failed to save conversation:", error));
+  }, [messages, conversation, modelId]);
+
+  // Quote the message being typed, debounced
+  useEffect(() => {
+    const message = input.trim();
+    if (!message) {
+      setQuote(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetchQuote(message, buildHistory(messages), modelId, maxCost, system, controller.signal)
+        .then(setQuote)
+        .catch((error) => {
+          if (error.name !== "AbortError") console.error("Quote error:", error);
+        });
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [input, modelId, messages, maxCost, system]);
+
+  const handlePersonasChange = (updated: Persona[]) => {
+    setPersonas(updated);
+    savePersonas(updated);
+  };
+
+  // A persona brings its own model
+  const handleSelectPersona = (selected: Persona | null) => {
+    setPersonaId(selected?.id ?? null);
+    if (selected) setModelId(selected.model);
+  };
+
+  const handleBudgetChange = (value: string) => {
+    setBudgetInput(value);
+    const dollars = Number(value);
+    const limit = value.trim() && dollars > 0 ? Math.round(dollars * 1_000_000) : null;
+    setBudget((prev) => ({ ...prev, limit }));
+  };
+
+  const handleSelectConversation = (stored: Conversation) => {
+    setMessages(stored.messages as Message[]);
+    setConversation({ id: stored.id, createdAt: stored.createdAt });
+    if (stored.model && getChatModel(stored.model)) setModelId(stored.model);
+  };
+
+  const handleNewConversation = () => {
+    setMessages([]);
+    setConversation(newConversation());
+  };
+
+  // Start a new budget session, keeping the limit
+  const resetBudget = () => {
+    setBudget((prev) => ({ ...createChatBudget(prev.limit), reserved: prev.reserved }));
+  };
 
   const handleSendMessage = async () => {
     if (!input.trim() || isLoading || !wallet) return;
@@ -46,20 +207,37 @@ export function ChatInterface() {
       id: Date.now().toString(),
       role: "user",
       content: input.trim(),
+      timestamp: new Date().toISOString(),
     };
 
+    const history = buildHistory(messages);
+
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
+    setQuote(null);
     setIsLoading(true);
 
+    let reserved = 0;
+    let settledCost = 0;
     try {
+      // Authorize the quoted worst case - actual charge is based on token usage
+      // With a budget, the cap is lowered to what remains, or the message is blocked
+      const messageQuote = await fetchQuote(userMessage.content, history, model.id, maxCost, system);
+      const check = checkBudget(budget, messageQuote);
+      if (!check.allowed) {
+        throw new Error(check.reason);
+      }
+      const maxValue = BigInt(messageQuote.maxValue);
+      reserved = messageQuote.maxValue;
+      setBudget((prev) => reserveBudget(prev, reserved));
+
       // Use wrapFetchWithPayment - handles 402 → payment → retry automatically
-      const normalizedFetch = createNormalizedFetch(AVALANCHE_FUJI_CHAIN_ID);
+      const normalizedFetch = createNormalizedFetch();
       const fetchWithPay = wrapFetchWithPayment(
         normalizedFetch,
         client,
         wallet,
-        { maxValue: MAX_PAYMENT }
+        { maxValue }
       );
 
       const response = await fetchWithPay(API_ENDPOINTS.AI_CHAT, {
@@ -67,26 +245,69 @@ export function ChatInterface() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ message: userMessage.content }),
+        body: JSON.stringify({
+          message: userMessage.content,
+          history,
+          model: model.id,
+          maxCost,
+          system,
+          temperature: persona?.temperature,
+          stream: true,
+        }),
       });
 
-      const data = await response.json();
-
-      if (response.status === 200 && data.response) {
-        // Add assistant message
-        const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          role: "assistant",
-          content: data.response,
-          tokens: data.tokens,
-          formattedCost: data.formattedCost,
-        };
-
-        setMessages((prev) => [...prev, assistantMessage]);
-        setTotalSpent((prev) => prev + (data.cost || 1000));
-      } else {
+      const isStream = response.headers.get("content-type")?.includes("text/event-stream");
+      if (response.status !== 200 || !isStream || !response.body) {
+        const data = await response.json();
         throw new Error(data.error || "Failed to get response");
       }
+
+      // Stream tokens into the assistant message, with live token count and cost
+      const assistantId = (Date.now() + 1).toString();
+      const updateAssistant = (update: (message: Message) => Message) => {
+        setMessages((prev) => prev.map((m) => (m.id === assistantId ? update(m) : m)));
+      };
+      setMessages((prev) => [
+        ...prev,
+        { id: assistantId, role: "assistant", content: "", timestamp: new Date().toISOString(), isStreaming: true },
+      ]);
+
+      let streamError: string | null = null;
+      await readSSE(response.body, (event) => {
+        const data = JSON.parse(event.data);
+        if (event.event === "token") {
+          updateAssistant((m) => ({
+            ...m,
+            content: m.content + data.content,
+            tokens: data.tokens,
+            formattedCost: data.formattedCost,
+          }));
+        } else if (event.event === "done") {
+          updateAssistant((m) => ({
+            ...m,
+            content: data.response,
+            tokens: data.tokens,
+            cost: data.cost,
+            formattedCost: data.formattedCost,
+            transactions: data.transaction ? [data.transaction] : undefined,
+            costBreakdown: data.costBreakdown,
+            itemization: data.itemization,
+            isStreaming: false,
+            capped: data.capped,
+            maxAuthorized: data.maxAuthorized,
+          }));
+          settledCost = data.cost || ROUTE_PRICING.AI_CHAT.minAmount;
+        } else if (event.event === "error") {
+          streamError = data.error;
+        }
+      });
+
+      if (streamError) {
+        // Drop the assistant message, the error is shown instead
+        // After streamed tokens the error means settlement failed, so the partial answer was never paid for
+        setMessages((prev) => prev.filter((m) => m.id !== assistantId));
+        throw new Error(streamError);
+      }
     } catch (error) {
       console.error("Chat error:", error);
       setMessages((prev) => [
@@ -95,103 +316,191 @@ export function ChatInterface() {
           id: (Date.now() + 1).toString(),
           role: "assistant",
           content: `Error: ${error instanceof Error ? error.message : "Failed to get response"}`,
+          timestamp: new Date().toISOString(),
+          isError: true,
         },
       ]);
     } finally {
+      // Swap the worst-case reservation for the settled cost (nothing if the message failed)
+      if (reserved > 0) {
+        setBudget((prev) => settleBudget(prev, reserved, settledCost));
+      }
+      setMessages((prev) => prev.map((m) => (m.isStreaming ? { ...m, isStreaming: false } : m)));
       setIsLoading(false);
     }
   };
 
   return (
-    <Card className="w-full max-w-2xl mx-auto">
-      <CardHeader className="pb-3">
-        <div className="flex items-center justify-between">
-          <CardTitle className="text-lg">AI Chat (Pay-per-Message)</CardTitle>
-          {totalSpent > 0 && (
-            <div className="text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded">
-              Total spent: {formatUSDCShort(totalSpent)}
+    <div className="w-full max-w-4xl mx-auto grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="md:col-span-1">
+        <ConversationSidebar
+          kind="chat"
+          activeId={conversation.id}
+          refreshKey={savedCount}
+          onSelect={handleSelectConversation}
+          onNew={handleNewConversation}
+          disabled={isLoading}
+        />
+      </div>
+      <Card className="w-full md:col-span-3">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">AI Chat (Pay-per-Message)</CardTitle>
+            {(budget.spent > 0 || budget.reserved > 0) && (
+              <div className="text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded">
+                Spent: {formatUSDCShort(budget.spent)}
+                {budget.limit !== null && <> of {formatUSDCShort(budget.limit)}</>}
+                {" "}· authorized {formatUSDCShort(budget.authorized)}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2 pt-1">
+            <label htmlFor="chat-model" className="text-xs text-slate-500">Model</label>
+            <select
+              id="chat-model"
+              value={modelId}
+              onChange={(e) => setModelId(e.target.value)}
+              disabled={isLoading}
+              className="px-2 py-1 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+            >
+              {CHAT_MODELS.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+            <label htmlFor="chat-budget" className="text-xs text-slate-500 ml-auto">Budget $</label>
+            <input
+              id="chat-budget"
+              type="number"
+              min="0"
+              step="0.01"
+              value={budgetInput}
+              onChange={(e) => handleBudgetChange(e.target.value)}
+              placeholder="No limit"
+              className="w-20 px-2 py-1 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <Button variant="outline" size="sm" onClick={resetBudget} disabled={budget.spent === 0 && budget.authorized === 0}>
+              Reset
+            </Button>
+          </div>
+          <PersonaManager
+            personas={personas}
+            selectedId={personaId}
+            onSelect={handleSelectPersona}
+            onChange={handlePersonasChange}
+            disabled={isLoading}
+          />
+          {warning && budget.limit !== null && (
+            <div className={`text-xs border rounded-lg px-3 py-2 ${BUDGET_WARNING_STYLES[warning]}`}>
+              {warning === 100
+                ? `Session budget of ${formatUSDCShort(budget.limit)} reached. Raise or reset it to keep chatting.`
+                : `${warning}% of the ${formatUSDCShort(budget.limit)} session budget used, ${formatUSDCShort(remainingBudget(budget) ?? 0)} left.`}
             </div>
           )}
-        </div>
-        <p className="text-sm text-muted-foreground">
-          Pay based on actual token usage ($0.001 per 1K tokens). Max cap: $0.50 per message.
-        </p>
-      </CardHeader>
-
-      <CardContent className="p-0">
-        <ScrollArea className="h-[400px] px-4">
-          <div className="space-y-4 py-4">
-            {messages.length === 0 ? (
-              <div className="text-center text-slate-400 py-12">
-                <p>Send a message to start chatting</p>
-                <p className="text-xs mt-1">Pay only for tokens used</p>
-              </div>
-            ) : (
-              messages.map((message) => (
-                <div key={message.id} className="space-y-2">
-                  <MessageBubble
-                    role={message.role}
-                    content={message.content}
-                  />
-                  {message.role === "assistant" && message.tokens && (
-                    <div className="pl-2">
-                      <TokenDisplay
-                        inputTokens={message.tokens.inputTokens}
-                        outputTokens={message.tokens.outputTokens}
-                        totalTokens={message.tokens.totalTokens}
-                        formattedCost={message.formattedCost || "$0.001"}
-                      />
-                    </div>
-                  )}
+          <p className="text-sm text-muted-foreground">
+            Pay based on actual token usage ({formatPriceAmount(model.inputRate)} input / {formatPriceAmount(model.outputRate)} output
+            per 1K tokens). Each message authorizes its quoted worst case, at most {formatPriceAmount(model.maxAmount)} plus
+            the conversation context (up to {DEFAULT_CONTEXT_POLICY.maxMessages} messages / {DEFAULT_CONTEXT_POLICY.maxTokens} tokens).
+          </p>
+        </CardHeader>
+
+        <CardContent className="p-0">
+          <ScrollArea className="h-[400px] px-4">
+            <div className="space-y-4 py-4">
+              {messages.length === 0 ? (
+                <div className="text-center text-slate-400 py-12">
+                  <p>Send a message to start chatting</p>
+                  <p className="text-xs mt-1">Pay only for tokens used</p>
                 </div>
-              ))
-            )}
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className="bg-slate-100 rounded-2xl rounded-bl-md px-4 py-2.5">
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" />
-                    <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.1s]" />
-                    <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.2s]" />
+              ) : (
+                // Streaming messages appear with their first token
+                messages.filter((message) => message.content).map((message) => (
+                  <div key={message.id} className="space-y-2">
+                    <MessageBubble
+                      role={message.role}
+                      content={message.content}
+                    />
+                    {message.role === "assistant" && message.tokens && (
+                      <div className="pl-2">
+                        <TokenDisplay
+                          inputTokens={message.tokens.inputTokens}
+                          outputTokens={message.tokens.outputTokens}
+                          totalTokens={message.tokens.totalTokens}
+                          formattedCost={message.formattedCost || formatPriceAmount(ROUTE_PRICING.AI_CHAT.minAmount)}
+                          isStreaming={message.isStreaming}
+                          contextTokens={message.tokens.contextTokens}
+                          contextCost={message.costBreakdown?.formattedContext}
+                          messageCost={message.costBreakdown?.formattedMessage}
+                          itemization={message.itemization}
+                        />
+                        {message.capped && (
+                          <p className="text-xs text-amber-600 mt-1">
+                            Response stopped at the {formatPriceAmount(message.maxAuthorized ?? model.maxAmount)} max cap
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+              {isLoading && !messages.some((m) => m.isStreaming && m.content) && (
+                <div className="flex justify-start">
+                  <div className="bg-slate-100 rounded-2xl rounded-bl-md px-4 py-2.5">
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" />
+                      <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.1s]" />
+                      <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:0.2s]" />
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
-          </div>
-        </ScrollArea>
-      </CardContent>
+              )}
+            </div>
+          </ScrollArea>
+        </CardContent>
+
+        <CardFooter className="flex-col gap-3 pt-3 border-t">
+          {!wallet && (
+            <div className="w-full bg-amber-50 border border-amber-200 rounded-lg p-3 text-center">
+              <p className="text-sm text-amber-800">Connect your wallet to chat</p>
+            </div>
+          )}
 
-      <CardFooter className="flex-col gap-3 pt-3 border-t">
-        {!wallet && (
-          <div className="w-full bg-amber-50 border border-amber-200 rounded-lg p-3 text-center">
-            <p className="text-sm text-amber-800">Connect your wallet to chat</p>
+          {quote && (
+            <div className="w-full text-xs text-slate-500">
+              Estimate: {quote.promptTokens} prompt tokens
+              {quote.systemTokens > 0 && <> (incl. {quote.systemTokens} system)</>} · {quote.cost.formattedMin}–{quote.cost.formattedMax}
+              {" "}· authorizes up to {formatUSDCShort(quote.maxValue)}
+              {quote.lowered && <> (lowered to fit the budget, {quote.maxOutputTokens} max reply tokens)</>}
+              {quoteCheck && !quoteCheck.allowed && <span className="text-red-600"> · {quoteCheck.reason}</span>}
+            </div>
+          )}
+
+          <div className="flex w-full gap-2">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSendMessage();
+                }
+              }}
+              placeholder={wallet ? "Type your message..." : "Connect wallet first"}
+              disabled={isLoading || !wallet}
+              className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-50 disabled:text-slate-400"
+            />
+            <Button
+              onClick={handleSendMessage}
+              disabled={!input.trim() || isLoading || !wallet || (quoteCheck !== null && !quoteCheck.allowed)}
+              size="sm"
+            >
+              Send
+            </Button>
           </div>
-        )}
-
-        <div className="flex w-full gap-2">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === "Enter" && !e.shiftKey) {
-                e.preventDefault();
-                handleSendMessage();
-              }
-            }}
-            placeholder={wallet ? "Type your message..." : "Connect wallet first"}
-            disabled={isLoading || !wallet}
-            className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-50 disabled:text-slate-400"
-          />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!input.trim() || isLoading || !wallet}
-            size="sm"
-          >
-            Send
-          </Button>
-        </div>
-      </CardFooter>
-    </Card>
+        </CardFooter>
+      </Card>
+    </div>
   );
 }
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { CHAT_MODELS } from "@/lib/pricing";
+import { createPersona, validatePersona, exportPersonas, importPersonas } from "@/lib/personas";
+import type { Persona } from "@/lib/personas";
+import { downloadFile } from "@/lib/download";
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  /** Persona used for new messages, null for no system prompt */
+  selectedId: string | null;
+  /** Called with the persona itself, so a just-saved persona's model applies */
+  onSelect: (persona: Persona | null) => void;
+  onChange: (personas: Persona[]) => void;
+  disabled?: boolean;
+}
+
+export function PersonaManager({ personas, selectedId, onSelect, onChange, disabled }: PersonaManagerProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEditing = (persona: Persona) => {
+    setDraft({ ...persona });
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const validationError = validatePersona(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const exists = personas.some((p) => p.id === draft.id);
+    onChange(exists ? personas.map((p) => (p.id === draft.id ? draft : p)) : [...personas, draft]);
+    onSelect(draft);
+    setDraft(null);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(personas.filter((p) => p.id !== id));
+    if (selectedId === id) onSelect(null);
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importPersonas(await file.text());
+      onChange([...personas, ...imported]);
+      setError(null);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : "Failed to import personas");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <label htmlFor="chat-persona" className="text-xs text-slate-500">Persona</label>
+        <select
+          id="chat-persona"
+          value={selectedId ?? ""}
+          onChange={(e) => onSelect(personas.find((p) => p.id === e.target.value) ?? null)}
+          disabled={disabled}
+          className="px-2 py-1 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+        >
+          <option value="">None</option>
+          {personas.map((persona) => (
+            <option key={persona.id} value={persona.id}>
+              {persona.name}
+            </option>
+          ))}
+        </select>
+        <Button variant="ghost" size="sm" onClick={() => setIsEditing(!isEditing)}>
+          {isEditing ? "Done" : "Manage"}
+        </Button>
+      </div>
+
+      {isEditing && (
+        <div className="border border-slate-200 rounded-lg p-3 space-y-3 text-sm">
+          {personas.length > 0 && (
+            <div className="space-y-1">
+              {personas.map((persona) => (
+                <div key={persona.id} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 truncate text-slate-700">{persona.name}</span>
+                  <span className="text-slate-400">T {persona.temperature}</span>
+                  <button type="button" onClick={() => startEditing(persona)} className="text-blue-600 hover:underline">
+                    Edit
+                  </button>
+                  <button type="button" onClick={() => handleDelete(persona.id)} className="text-red-600 hover:underline">
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {draft ? (
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name"
+                className="w-full px-2 py-1 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <textarea
+                value={draft.systemPrompt}
+                onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+                placeholder="System prompt"
+                rows={4}
+                className="w-full px-2 py-1 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <div className="flex items-center gap-2">
+                <select
+                  value={draft.model}
+                  onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                  className="flex-1 px-2 py-1 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {CHAT_MODELS.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.name}
+                    </option>
+                  ))}
+                </select>
+                <label className="text-xs text-slate-500">Temperature</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="2"
+                  step="0.1"
+                  value={draft.temperature}
+                  onChange={(e) => setDraft({ ...draft, temperature: Number(e.target.value) })}
+                  className="w-16 px-2 py-1 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleSave}>Save</Button>
+                <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => startEditing(createPersona())}>
+                New persona
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                Import JSON
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadFile("personas.json", exportPersonas(personas), "application/json")}
+                disabled={personas.length === 0}
+              >
+                Export JSON
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
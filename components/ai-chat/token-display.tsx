@@ -1,10 +1,23 @@
 "use client";
 
+import { formatPriceAmount } from "@/lib/pricing";
+import { formatUSDC } from "@/lib/token-pricing";
+import type { CostItemization } from "@/lib/token-pricing";
+
 interface TokenDisplayProps {
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
   formattedCost: string;
+  /** Counts are still updating from a streaming response */
+  isStreaming?: boolean;
+  /** Input tokens from the conversation history */
+  contextTokens?: number;
+  /** Cost split between the history and the new message */
+  contextCost?: string;
+  messageCost?: string;
+  /** Settled cost by line item, shown once the message is final */
+  itemization?: CostItemization;
 }
 
 export function TokenDisplay({
@@ -12,62 +25,102 @@ export function TokenDisplay({
   outputTokens,
   totalTokens,
   formattedCost,
+  isStreaming,
+  contextTokens,
+  contextCost,
+  messageCost,
+  itemization,
 }: TokenDisplayProps) {
   return (
-    <div className="flex items-center gap-4 text-xs text-slate-500 bg-slate-50 rounded-lg px-3 py-2">
-      <div className="flex items-center gap-1.5">
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          width="12"
-          height="12"
-          viewBox="0 0 24 24"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="2"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-        >
-          <circle cx="12" cy="12" r="10" />
-          <path d="M12 6v6l4 2" />
-        </svg>
-        <span>Input: {inputTokens}</span>
-      </div>
-      <div className="w-px h-3 bg-slate-300" />
-      <div className="flex items-center gap-1.5">
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          width="12"
-          height="12"
-          viewBox="0 0 24 24"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="2"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-        >
-          <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
-        </svg>
-        <span>Output: {outputTokens}</span>
-      </div>
-      <div className="w-px h-3 bg-slate-300" />
-      <div className="flex items-center gap-1.5 font-medium text-slate-700">
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          width="12"
-          height="12"
-          viewBox="0 0 24 24"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="2"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-        >
-          <circle cx="12" cy="12" r="10" />
-          <path d="M16 8h-6a2 2 0 1 0 0 4h4a2 2 0 1 1 0 4H8" />
-          <path d="M12 18V6" />
-        </svg>
-        <span>Cost: {formattedCost}</span>
+    <div className="space-y-1">
+      <div className="flex items-center gap-4 text-xs text-slate-500 bg-slate-50 rounded-lg px-3 py-2">
+        <div className="flex items-center gap-1.5">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <circle cx="12" cy="12" r="10" />
+            <path d="M12 6v6l4 2" />
+          </svg>
+          <span>Input: {inputTokens}</span>
+        </div>
+        <div className="w-px h-3 bg-slate-300" />
+        <div className="flex items-center gap-1.5">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+          </svg>
+          <span>Output: {outputTokens}</span>
+        </div>
+        <div className="w-px h-3 bg-slate-300" />
+        <div className="flex items-center gap-1.5 font-medium text-slate-700">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <circle cx="12" cy="12" r="10" />
+            <path d="M16 8h-6a2 2 0 1 0 0 4h4a2 2 0 1 1 0 4H8" />
+            <path d="M12 18V6" />
+          </svg>
+          <span>Cost: {formattedCost}</span>
+        </div>
+        {isStreaming && (
+          <>
+            <div className="w-px h-3 bg-slate-300" />
+            <div className="flex items-center gap-1.5 text-blue-600">
+              <div className="w-1.5 h-1.5 bg-blue-500 rounded-full animate-pulse" />
+              <span>Live</span>
+            </div>
+          </>
+        )}
       </div>
+      {!!contextTokens && contextCost && messageCost && (
+        <div className="text-xs text-slate-400 px-3">
+          Context: {contextTokens} tokens ({contextCost}) · New message: {messageCost}
+        </div>
+      )}
+      {itemization && !isStreaming && (
+        <div className="text-xs text-slate-400 px-3 space-y-0.5">
+          <div>
+            Prompt: {itemization.promptTokens} × {formatPriceAmount(itemization.inputRate)}/1K = {formatUSDC(itemization.promptCost)}
+          </div>
+          <div>
+            Completion: {itemization.completionTokens} × {formatPriceAmount(itemization.outputRate)}/1K = {formatUSDC(itemization.completionCost)}
+          </div>
+          {itemization.minimumAdjustment > 0 && (
+            <div>Minimum charge: +{formatUSDC(itemization.minimumAdjustment)}</div>
+          )}
+          {itemization.capAdjustment < 0 && itemization.cap !== null && (
+            <div>
+              Cap {formatUSDC(itemization.cap)} applied: −{formatUSDC(-itemization.capAdjustment)}
+            </div>
+          )}
+          <div className="text-slate-500">Total: {formatUSDC(itemization.total)}</div>
+        </div>
+      )}
     </div>
   );
 }
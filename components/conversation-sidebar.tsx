@@ -0,0 +1,108 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { listConversations, deleteConversation } from "@/lib/conversation-store";
+import type { Conversation, ConversationKind } from "@/lib/conversation-store";
+import { downloadConversation } from "@/lib/conversation-export";
+import { formatUSDCShort } from "@/lib/token-pricing";
+
+interface ConversationSidebarProps {
+  kind: ConversationKind;
+  /** Only conversations of this agent wallet (and ones saved before wallets were recorded) */
+  walletAddress?: string;
+  /** Conversation shown in the chat, highlighted in the list */
+  activeId: string;
+  /** Changes whenever a conversation is saved, to reload the list */
+  refreshKey: number;
+  onSelect: (conversation: Conversation) => void;
+  onNew: () => void;
+  disabled?: boolean;
+}
+
+export function ConversationSidebar({
+  kind,
+  walletAddress,
+  activeId,
+  refreshKey,
+  onSelect,
+  onNew,
+  disabled,
+}: ConversationSidebarProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+
+  useEffect(() => {
+    listConversations(kind)
+      .then((all) => setConversations(
+        walletAddress ? all.filter((c) => !c.walletAddress || c.walletAddress === walletAddress) : all
+      ))
+      .catch((error) => console.error("Failed to load conversations:", error));
+  }, [kind, walletAddress, refreshKey]);
+
+  const handleDelete = async (id: string) => {
+    await deleteConversation(id);
+    setConversations((prev) => prev.filter((c) => c.id !== id));
+    if (id === activeId) onNew();
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm">Conversations</CardTitle>
+          <Button variant="outline" size="sm" onClick={onNew} disabled={disabled}>
+            New
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <ScrollArea className="h-[300px] px-2">
+          {conversations.length === 0 ? (
+            <p className="text-xs text-slate-400 text-center py-6">No saved conversations</p>
+          ) : (
+            <div className="space-y-1 pb-2">
+              {conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  className={`rounded-lg px-2 py-1.5 text-xs ${
+                    conversation.id === activeId ? "bg-blue-50 border border-blue-200" : "hover:bg-slate-50"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onSelect(conversation)}
+                    disabled={disabled}
+                    className="w-full text-left disabled:cursor-not-allowed"
+                  >
+                    <div className="font-medium text-slate-700 truncate">{conversation.title}</div>
+                    <div className="text-slate-400">
+                      {conversation.messages.length} messages · {formatUSDCShort(conversation.totalSpent)} spent
+                    </div>
+                  </button>
+                  <div className="flex gap-2 pt-1 text-slate-400">
+                    <button type="button" onClick={() => downloadConversation(conversation, "json")} className="hover:text-slate-600">
+                      JSON
+                    </button>
+                    <button type="button" onClick={() => downloadConversation(conversation, "markdown")} className="hover:text-slate-600">
+                      Markdown
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(conversation.id)}
+                      disabled={disabled}
+                      className="ml-auto hover:text-red-600 disabled:cursor-not-allowed"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
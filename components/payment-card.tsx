@@ -2,16 +2,42 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 
+export interface PaymentCardOption {
+  key: string;
+  /** Amount in the option's asset, e.g. "0.0093 EURC" */
+  label: string;
+  network: string;
+}
+
 interface PaymentCardProps {
   tier: string;
   price: string;
   description: string;
   features?: string[];
+  /** Accepted assets/networks, shown as a picker when there is more than one */
+  options?: PaymentCardOption[];
+  selectedOption?: string;
+  onOptionChange?: (key: string) => void;
+  /** Set while an access pass for this tier is valid (ISO timestamp) */
+  accessExpiresAt?: string;
   onPayClick: () => void;
   isPaying: boolean;
 }
 
-export function PaymentCard({ tier, price, description, features, onPayClick, isPaying }: PaymentCardProps) {
+export function PaymentCard({
+  tier,
+  price,
+  description,
+  features,
+  options = [],
+  selectedOption,
+  onOptionChange,
+  accessExpiresAt,
+  onPayClick,
+  isPaying,
+}: PaymentCardProps) {
+  const hasChoice = options.length > 1;
+
   return (
     <Card className="w-full max-w-sm">
       <CardHeader>
@@ -24,7 +50,28 @@ export function PaymentCard({ tier, price, description, features, onPayClick, is
         <CardDescription>{description}</CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="text-4xl font-bold mb-4">{price} <span className="text-sm text-muted-foreground">USDC</span></div>
+        <div className="text-4xl font-bold mb-4">
+          {price} <span className="text-sm text-muted-foreground">{hasChoice ? "USD" : "USDC"}</span>
+        </div>
+        {hasChoice && (
+          <div className="space-y-2 mb-4">
+            <p className="text-xs text-muted-foreground">Pay with</p>
+            {options.map((option) => (
+              <button
+                key={option.key}
+                type="button"
+                onClick={() => onOptionChange?.(option.key)}
+                disabled={isPaying}
+                className={`w-full flex items-center justify-between rounded-md border px-3 py-2 text-sm transition-colors ${
+                  option.key === selectedOption ? "border-primary bg-primary/5" : "hover:bg-muted"
+                }`}
+              >
+                <span className="font-medium">{option.label}</span>
+                <span className="text-xs text-muted-foreground">{option.network}</span>
+              </button>
+            ))}
+          </div>
+        )}
         {features && features.length > 0 && (
           <ul className="space-y-2">
             {features.map((feature, index) => (
@@ -37,6 +84,11 @@ export function PaymentCard({ tier, price, description, features, onPayClick, is
             ))}
           </ul>
         )}
+        {accessExpiresAt && (
+          <p className="text-xs text-green-600 mt-4">
+            Access active until {new Date(accessExpiresAt).toLocaleString()}
+          </p>
+        )}
       </CardContent>
       <CardFooter>
         <Button 
@@ -44,7 +96,7 @@ export function PaymentCard({ tier, price, description, features, onPayClick, is
           onClick={onPayClick}
           disabled={isPaying}
         >
-          {isPaying ? "Processing..." : "Pay Now"}
+          {isPaying ? "Processing..." : accessExpiresAt ? "View Content" : "Pay Now"}
         </Button>
       </CardFooter>
     </Card>
@@ -0,0 +1,61 @@
+// Storage key prefix, one pass per wallet address and route
+const ACCESS_PASS_KEY = "x402_access_pass";
+
+/**
+ * Access pass kept in the browser after paying for a route
+ */
+export interface StoredAccessPass {
+  token: string;
+  /** ISO timestamp */
+  expiresAt: string;
+}
+
+function storageKey(address: string, route: string): string {
+  return `${ACCESS_PASS_KEY}:${address.toLowerCase()}:${route}`;
+}
+
+/**
+ * Message the payer signs to use an access pass, shared by the client and the route
+ */
+export function accessPassProofMessage(route: string, timestamp: number): string {
+  return `Use my x402 access pass\nRoute: ${route}\nTimestamp: ${timestamp}`;
+}
+
+/**
+ * Save the access pass returned with a paid response (X-ACCESS-PASS headers)
+ */
+export function saveAccessPass(address: string, route: string, response: Response): StoredAccessPass | null {
+  const token = response.headers.get("X-ACCESS-PASS");
+  const expiresAt = response.headers.get("X-ACCESS-PASS-EXPIRES");
+  if (!token || !expiresAt) return null;
+
+  const pass: StoredAccessPass = { token, expiresAt };
+  localStorage.setItem(storageKey(address, route), JSON.stringify(pass));
+  return pass;
+}
+
+/**
+ * Load an unexpired access pass for the wallet and route
+ */
+export function loadAccessPass(address: string, route: string): StoredAccessPass | null {
+  const stored = localStorage.getItem(storageKey(address, route));
+  if (!stored) return null;
+
+  try {
+    const pass: StoredAccessPass = JSON.parse(stored);
+    if (new Date(pass.expiresAt).getTime() > Date.now()) {
+      return pass;
+    }
+  } catch {
+    // Corrupt entry, drop it below
+  }
+  clearAccessPass(address, route);
+  return null;
+}
+
+/**
+ * Remove a stored access pass (expired or rejected by the server)
+ */
+export function clearAccessPass(address: string, route: string): void {
+  localStorage.removeItem(storageKey(address, route));
+}
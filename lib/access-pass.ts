@@ -0,0 +1,121 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { createThirdwebClient } from "thirdweb";
+import { verifySignature } from "thirdweb/auth";
+import { ACTIVE_NETWORK } from "./constants";
+import { accessPassProofMessage } from "./access-pass-store";
+
+/**
+ * Access pass issued after a settled payment
+ * Lets the payer use the route again until it expires, without a new payment
+ * The token alone is not enough: each request also proves the payer with a fresh signature
+ */
+export interface AccessPass {
+  /** Route pathname the pass is valid for, e.g. /api/premium */
+  route: string;
+  /** Address that paid for the pass */
+  payer: string;
+  issuedAt: number;
+  /** Unix timestamp (seconds) */
+  expiresAt: number;
+}
+
+// Headers carrying the pass: request (client -> route) and response (route -> client)
+export const ACCESS_PASS_HEADER = "x-access-pass";
+export const ACCESS_PASS_RESPONSE_HEADER = "X-ACCESS-PASS";
+// Proof of the payer sent with the pass: a signature of accessPassProofMessage(route, timestamp)
+export const ACCESS_PASS_SIGNATURE_HEADER = "x-access-pass-signature";
+export const ACCESS_PASS_TIMESTAMP_HEADER = "x-access-pass-timestamp";
+
+// How long a proof signature is accepted, in seconds either way to allow for clock skew
+const PROOF_MAX_AGE_SECONDS = 300;
+
+const client = createThirdwebClient({
+  clientId: process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "access-pass",
+});
+
+// Random per-process secret when ACCESS_PASS_SECRET is not set, passes then reset on restart
+const globalForSecret = globalThis as typeof globalThis & {
+  __x402AccessPassSecret?: string;
+};
+
+function getSecret(): string {
+  if (process.env.ACCESS_PASS_SECRET) {
+    return process.env.ACCESS_PASS_SECRET;
+  }
+  if (!globalForSecret.__x402AccessPassSecret) {
+    console.warn("ACCESS_PASS_SECRET is not set, using a random secret for this process");
+    globalForSecret.__x402AccessPassSecret = randomBytes(32).toString("hex");
+  }
+  return globalForSecret.__x402AccessPassSecret;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+/**
+ * Issue a signed access pass for a payer
+ * Token format: base64url(JSON payload).base64url(HMAC-SHA256 signature)
+ */
+export function issueAccessPass(route: string, payer: string, durationSeconds: number): { token: string; pass: AccessPass } {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const pass: AccessPass = {
+    route,
+    payer: payer.toLowerCase(),
+    issuedAt,
+    expiresAt: issuedAt + durationSeconds,
+  };
+  const data = Buffer.from(JSON.stringify(pass)).toString("base64url");
+  return { token: `${data}.${sign(data)}`, pass };
+}
+
+/**
+ * Proof that the request comes from the pass's payer
+ */
+export interface AccessPassProof {
+  signature: string;
+  /** Unix timestamp (seconds) included in the signed message */
+  timestamp: number;
+}
+
+/**
+ * Verify an access pass token for a route, and that the requester signed a recent proof as its payer
+ * Returns null if the signature, route, expiry or proof doesn't match
+ */
+export async function verifyAccessPass(
+  token: string,
+  route: string,
+  proof: AccessPassProof | null
+): Promise<AccessPass | null> {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let pass: AccessPass;
+  try {
+    pass = JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (pass.route !== route) return null;
+  if (pass.expiresAt <= now) return null;
+
+  if (!proof || !Number.isInteger(proof.timestamp) || Math.abs(now - proof.timestamp) > PROOF_MAX_AGE_SECONDS) {
+    return null;
+  }
+  const isPayer = await verifySignature({
+    message: accessPassProofMessage(route, proof.timestamp),
+    signature: proof.signature,
+    address: pass.payer,
+    client,
+    chain: ACTIVE_NETWORK.chain,
+  }).catch(() => false);
+  return isPayer ? pass : null;
+}
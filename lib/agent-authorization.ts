@@ -1,3 +1,7 @@
+import { ACTIVE_NETWORK, AGENT_AUTHORIZATION } from "./constants";
+import { findPaymentOption, toUsdAmount } from "./payment-options";
+import type { OfferedPayment } from "./payment-options";
+
 /**
  * Format USDC amount for display
  */
@@ -21,3 +25,306 @@ export function parseRequestedToken(message: string): string | null {
 
   return null;
 }
+
+// localStorage key prefix of the per-wallet authorization, suffixed with the agent wallet address
+const AUTHORIZATION_KEY_PREFIX = "x402_agent_authorization:";
+
+// Window of the per-hour rate limit
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * What the agent may pay for, checked before every payment is signed
+ * Amounts are USD in USDC units (6 decimals)
+ */
+export interface AgentPolicy {
+  /** Unix timestamp (ms) after which the agent may not pay */
+  expiresAt: number;
+  /** Total the agent may spend under this policy */
+  totalBudget: number;
+  maxPerCall: number;
+  /** Max spend in any rolling hour */
+  maxPerHour: number;
+  /** Recipients the agent may pay, empty for any */
+  allowedPayTo: string[];
+  /** Resource URLs (or URL path prefixes) the agent may pay for, empty for any */
+  allowedResources: string[];
+}
+
+/**
+ * A payment settled under the policy
+ */
+export interface AgentSpend {
+  amount: number;
+  payTo: string;
+  resource: string;
+  timestamp: number;
+}
+
+/**
+ * Policy of an agent wallet with the payments settled under it
+ */
+export interface AgentAuthorization {
+  walletAddress: string;
+  policy: AgentPolicy;
+  spends: AgentSpend[];
+  createdAt: number;
+}
+
+/**
+ * A payment the agent is about to sign
+ */
+export interface AgentPayment {
+  /** USD amount, USDC units */
+  amount: number;
+  payTo: string;
+  resource: string;
+}
+
+export class AgentPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AgentPolicyError";
+  }
+}
+
+function authorizationKey(walletAddress: string): string {
+  return `${AUTHORIZATION_KEY_PREFIX}${walletAddress.toLowerCase()}`;
+}
+
+/**
+ * Default policy: the default budget for the default expiry, limited to the given endpoints
+ */
+export function createDefaultPolicy(allowedResources: string[] = [], allowedPayTo: string[] = []): AgentPolicy {
+  return {
+    expiresAt: Date.now() + AGENT_AUTHORIZATION.DEFAULT_EXPIRY_HOURS * HOUR_MS,
+    totalBudget: AGENT_AUTHORIZATION.DEFAULT_BUDGET,
+    maxPerCall: AGENT_AUTHORIZATION.DEFAULT_MAX_PER_CALL,
+    maxPerHour: AGENT_AUTHORIZATION.DEFAULT_MAX_PER_HOUR,
+    allowedPayTo,
+    allowedResources,
+  };
+}
+
+/**
+ * Check a policy's limits, returns the error message or null if it is valid
+ */
+export function validatePolicy(policy: AgentPolicy): string | null {
+  if (policy.expiresAt <= Date.now()) {
+    return "Expiry must be in the future";
+  }
+  if (policy.expiresAt > Date.now() + AGENT_AUTHORIZATION.MAX_EXPIRY_HOURS * HOUR_MS) {
+    return `Expiry can be at most ${AGENT_AUTHORIZATION.MAX_EXPIRY_HOURS} hours away`;
+  }
+  if (!(policy.totalBudget > 0) || policy.totalBudget > AGENT_AUTHORIZATION.MAX_BUDGET) {
+    return `Total budget must be between $0 and ${formatBudget(AGENT_AUTHORIZATION.MAX_BUDGET)}`;
+  }
+  if (!(policy.maxPerCall > 0) || policy.maxPerCall > policy.totalBudget) {
+    return "Max per call must be positive and at most the total budget";
+  }
+  if (!(policy.maxPerHour > 0) || policy.maxPerHour > policy.totalBudget) {
+    return "Max per hour must be positive and at most the total budget";
+  }
+  if (!policy.allowedPayTo.every(address => /^0x[0-9a-fA-F]{40}$/.test(address))) {
+    return "Allowed recipients must be 0x addresses";
+  }
+  if (!policy.allowedResources.every(url => URL.canParse(url))) {
+    return "Allowed resources must be absolute URLs";
+  }
+  return null;
+}
+
+export function loadAuthorization(walletAddress: string): AgentAuthorization | null {
+  if (typeof window === "undefined") return null;
+
+  const stored = localStorage.getItem(authorizationKey(walletAddress));
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+}
+
+export function saveAuthorization(authorization: AgentAuthorization): void {
+  localStorage.setItem(authorizationKey(authorization.walletAddress), JSON.stringify(authorization));
+}
+
+export function deleteAuthorization(walletAddress: string): void {
+  localStorage.removeItem(authorizationKey(walletAddress));
+}
+
+/**
+ * Set the policy of an agent wallet
+ * Spends under a policy that hasn't expired carry over, so editing the limits doesn't reset
+ * the budget; after expiry the new policy starts a fresh spend history
+ */
+export function authorizeAgent(walletAddress: string, policy: AgentPolicy): AgentAuthorization {
+  const existing = loadAuthorization(walletAddress);
+  const isActive = existing !== null && existing.policy.expiresAt > Date.now();
+  const authorization: AgentAuthorization = {
+    walletAddress,
+    policy,
+    spends: isActive ? existing.spends : [],
+    createdAt: isActive ? existing.createdAt : Date.now(),
+  };
+  saveAuthorization(authorization);
+  return authorization;
+}
+
+export function totalSpent(authorization: AgentAuthorization): number {
+  return authorization.spends.reduce((sum, spend) => sum + spend.amount, 0);
+}
+
+export function spentInLastHour(authorization: AgentAuthorization, now = Date.now()): number {
+  return authorization.spends
+    .filter(spend => spend.timestamp > now - HOUR_MS)
+    .reduce((sum, spend) => sum + spend.amount, 0);
+}
+
+/**
+ * Whether a resource URL is covered by an allowed URL: same origin, and the same path or a path below it
+ */
+function matchesResource(resource: string, allowed: string): boolean {
+  if (!URL.canParse(resource) || !URL.canParse(allowed)) return false;
+  const url = new URL(resource);
+  const allowedUrl = new URL(allowed);
+  if (url.origin !== allowedUrl.origin) return false;
+
+  const prefix = allowedUrl.pathname.endsWith("/") ? allowedUrl.pathname : `${allowedUrl.pathname}/`;
+  return url.pathname === allowedUrl.pathname || url.pathname.startsWith(prefix);
+}
+
+/**
+ * Check a payment against the authorization, returns why it is not allowed or null if it is
+ */
+export function checkAgentPayment(
+  authorization: AgentAuthorization | null,
+  payment: AgentPayment,
+  now = Date.now()
+): string | null {
+  if (!authorization) {
+    return "No authorization policy is set for this agent wallet";
+  }
+  const { policy } = authorization;
+
+  if (now >= policy.expiresAt) {
+    return "The agent's authorization has expired";
+  }
+  if (payment.amount > policy.maxPerCall) {
+    return `${formatBudget(payment.amount)} exceeds the ${formatBudget(policy.maxPerCall)} per-call limit`;
+  }
+  if (totalSpent(authorization) + payment.amount > policy.totalBudget) {
+    return `The ${formatBudget(policy.totalBudget)} authorized budget would be exceeded`;
+  }
+  if (spentInLastHour(authorization, now) + payment.amount > policy.maxPerHour) {
+    return `The ${formatBudget(policy.maxPerHour)} per-hour limit would be exceeded`;
+  }
+  if (policy.allowedPayTo.length > 0 &&
+    !policy.allowedPayTo.some(address => address.toLowerCase() === payment.payTo.toLowerCase())) {
+    return `Recipient ${payment.payTo} is not on the allowlist`;
+  }
+  if (policy.allowedResources.length > 0 &&
+    !policy.allowedResources.some(allowed => matchesResource(payment.resource, allowed))) {
+    return `Resource ${payment.resource} is not on the allowlist`;
+  }
+  return null;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+function isSpend(value: unknown): value is AgentSpend {
+  const spend = value as AgentSpend;
+  return typeof spend === "object" && spend !== null &&
+    Number.isFinite(spend.amount) && spend.amount >= 0 && Number.isFinite(spend.timestamp) &&
+    typeof spend.payTo === "string" && typeof spend.resource === "string";
+}
+
+/**
+ * Check an authorization from an untrusted source (e.g. a backup file) before it is saved
+ * Throws AgentPolicyError if the policy is malformed or outside the limits; spends that
+ * aren't a list of payments are dropped
+ */
+export function parseAuthorization(value: unknown, walletAddress: string): AgentAuthorization {
+  const data = value as Partial<AgentAuthorization> | null;
+  const policy = data?.policy;
+  if (typeof policy !== "object" || policy === null ||
+    ![policy.expiresAt, policy.totalBudget, policy.maxPerCall, policy.maxPerHour].every(Number.isFinite) ||
+    !isStringArray(policy.allowedPayTo) || !isStringArray(policy.allowedResources)) {
+    throw new AgentPolicyError("Authorization policy is malformed");
+  }
+  const validationError = validatePolicy(policy);
+  if (validationError) {
+    throw new AgentPolicyError(validationError);
+  }
+
+  const spends = Array.isArray(data?.spends) && data.spends.every(isSpend) ? data.spends : [];
+  return {
+    walletAddress,
+    policy: {
+      expiresAt: policy.expiresAt,
+      totalBudget: policy.totalBudget,
+      maxPerCall: policy.maxPerCall,
+      maxPerHour: policy.maxPerHour,
+      allowedPayTo: policy.allowedPayTo,
+      allowedResources: policy.allowedResources,
+    },
+    spends: spends.map(({ amount, payTo, resource, timestamp }) => ({ amount, payTo, resource, timestamp })),
+    createdAt: Number.isFinite(data?.createdAt) ? data!.createdAt! : Date.now(),
+  };
+}
+
+/**
+ * Record a settled payment against the wallet's authorization
+ */
+export function recordAgentSpend(walletAddress: string, payment: AgentPayment, now = Date.now()): void {
+  const authorization = loadAuthorization(walletAddress);
+  if (!authorization) return;
+  saveAuthorization({
+    ...authorization,
+    spends: [...authorization.spends, { ...payment, timestamp: now }],
+  });
+}
+
+/**
+ * Build a paymentRequirementsSelector for wrapFetchWithPayment that enforces the agent wallet's policy
+ * It runs before the payment is signed: it picks the first offered payment the policy allows and passes
+ * it to onSelected, or throws AgentPolicyError if none is allowed so nothing gets signed
+ * Nothing is recorded here, since the payment can still be refused or not settled: the caller records
+ * it with recordAgentSpend once the response shows it settled, so payments must not run concurrently
+ * Only offers on the active network are considered, the agent's signer can't switch chains
+ * The authorization is read on every payment, so policy changes apply right away
+ */
+export function enforceAgentPolicy(walletAddress: string, onSelected: (payment: AgentPayment) => void) {
+  return <T extends OfferedPayment & { payTo: string; resource: string }>(requirements: T[]): T | undefined => {
+    const authorization = loadAuthorization(walletAddress);
+    let reason: string | null = "No payment option offered";
+
+    for (const offer of requirements) {
+      const option = findPaymentOption(offer);
+      if (!option) {
+        reason = `Unsupported payment asset ${offer.asset} on ${offer.network}`;
+        continue;
+      }
+      if (option.network.chain.id !== ACTIVE_NETWORK.chain.id) {
+        reason = `The agent only pays on ${ACTIVE_NETWORK.name}`;
+        continue;
+      }
+
+      const payment: AgentPayment = {
+        amount: toUsdAmount(offer.maxAmountRequired, option.asset),
+        payTo: offer.payTo,
+        resource: offer.resource,
+      };
+      reason = checkAgentPayment(authorization, payment);
+      if (reason === null) {
+        onSelected(payment);
+        return offer;
+      }
+    }
+
+    throw new AgentPolicyError(reason ?? "Payment not allowed by the agent's policy");
+  };
+}
@@ -1,41 +1,27 @@
 import { createThirdwebClient } from "thirdweb";
 import { privateKeyToAccount } from "thirdweb/wallets";
-import { avalancheFuji } from "thirdweb/chains";
+import type { Account } from "thirdweb/wallets";
 import { getContract, readContract } from "thirdweb";
-import { USDC_FUJI_ADDRESS } from "./constants";
+import { ACTIVE_NETWORK, FACILITATOR_MODE, API_ENDPOINTS, WALLET_ENCRYPTION } from "./constants";
+import { encryptSecret, decryptSecret, decryptLegacySecret, DecryptionError } from "./wallet-crypto";
+import type { EncryptedSecret } from "./wallet-crypto";
+import { decryptKeystore, encryptKeystore, parseKeystore, KeystoreError } from "./keystore";
+import type { KeystoreV3 } from "./keystore";
+import { loadAuthorization, saveAuthorization, parseAuthorization } from "./agent-authorization";
+import type { AgentAuthorization } from "./agent-authorization";
+import { privateKeyFromMnemonic, normalizeMnemonic, derivationIndex, derivationPathAt } from "./hd-wallet";
 
 // Storage keys
-const AGENT_WALLET_KEY = "x402_agent_wallet";
-const AGENT_WALLET_CREATED_KEY = "x402_agent_wallet_created";
+const AGENT_WALLETS_KEY = "x402_agent_wallets";
+const SELECTED_AGENT_WALLET_KEY = "x402_agent_wallet_selected";
+// Single wallet stored before multiple wallets, moved into the keyed store on first load
+const LEGACY_AGENT_WALLET_KEY = "x402_agent_wallet";
+const LEGACY_AGENT_WALLET_CREATED_KEY = "x402_agent_wallet_created";
 
-// Simple encryption using a derived key from a password
-// Note: For production, use a more robust encryption library
-function simpleEncrypt(text: string, password: string): string {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(text);
-  const key = encoder.encode(password.padEnd(32, "0").slice(0, 32));
-  
-  const encrypted = new Uint8Array(data.length);
-  for (let i = 0; i < data.length; i++) {
-    encrypted[i] = data[i] ^ key[i % key.length];
-  }
-  
-  return btoa(String.fromCharCode(...encrypted));
-}
-
-function simpleDecrypt(encryptedText: string, password: string): string {
-  const encoder = new TextEncoder();
-  const key = encoder.encode(password.padEnd(32, "0").slice(0, 32));
-  
-  const encrypted = Uint8Array.from(atob(encryptedText), c => c.charCodeAt(0));
-  const decrypted = new Uint8Array(encrypted.length);
-  
-  for (let i = 0; i < encrypted.length; i++) {
-    decrypted[i] = encrypted[i] ^ key[i % key.length];
-  }
-  
-  return new TextDecoder().decode(decrypted);
-}
+// Name of a wallet moved over from the single-wallet storage
+const DEFAULT_WALLET_NAME = "Agent";
+// Name of a wallet restored from a keystore without metadata
+const RESTORED_WALLET_NAME = "Restored agent";
 
 /**
  * Generate a random private key
@@ -46,6 +32,24 @@ function generatePrivateKey(): string {
   return "0x" + Array.from(array).map(b => b.toString(16).padStart(2, "0")).join("");
 }
 
+// Order of the secp256k1 group: private keys must be in [1, n)
+const SECP256K1_ORDER = BigInt("0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141");
+
+/**
+ * Check and normalize a hex private key (0x prefix optional) to lowercase 0x form
+ */
+export function normalizePrivateKey(input: string): string {
+  const hex = input.trim().replace(/^0x/i, "").toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(hex)) {
+    throw new Error("Private key must be 64 hex characters");
+  }
+  const value = BigInt(`0x${hex}`);
+  if (value === BigInt(0) || value >= SECP256K1_ORDER) {
+    throw new Error("Private key is out of range");
+  }
+  return `0x${hex}`;
+}
+
 /**
  * Derive address from private key (simplified - uses thirdweb)
  */
@@ -57,105 +61,426 @@ export async function getAddressFromPrivateKey(
   return account.address;
 }
 
-export interface AgentWalletData {
+// Current storage format version
+export const AGENT_WALLET_VERSION = 2;
+
+/**
+ * What the agent wallet's encryption key is derived from
+ * - passphrase: a passphrase the user enters
+ * - signature: the main wallet's signature of WALLET_ENCRYPTION.UNLOCK_MESSAGE
+ */
+export type KeySource = "passphrase" | "signature";
+
+/**
+ * Fields of every stored agent wallet, whatever its key format
+ */
+interface StoredAgentWallet {
+  id: string;
+  name: string;
   address: string;
-  encryptedPrivateKey: string;
   createdAt: number;
+  /** Set when archived: kept (with its key) but hidden from the switcher */
+  archivedAt?: number;
 }
 
+/**
+ * Legacy (version 1) format: private key XOR-ed with the user's wallet address
+ * Readable by anyone with access to localStorage, only loaded to migrate it
+ */
+export interface LegacyAgentWalletData extends StoredAgentWallet {
+  version?: 1;
+  encryptedPrivateKey: string;
+}
+
+export interface EncryptedAgentWalletData extends StoredAgentWallet {
+  version: typeof AGENT_WALLET_VERSION;
+  keySource: KeySource;
+  encryptedPrivateKey: EncryptedSecret;
+  /** Set for wallets derived from a recovery phrase */
+  hd?: {
+    /** Shared by the wallets derived from the same phrase */
+    seedId: string;
+    path: string;
+    encryptedMnemonic: EncryptedSecret;
+  };
+}
+
+export type AgentWalletData = LegacyAgentWalletData | EncryptedAgentWalletData;
+
 export interface AgentWallet {
+  id: string;
+  name: string;
   address: string;
   privateKey: string;
   createdAt: number;
+  hd?: {
+    seedId: string;
+    path: string;
+    mnemonic: string;
+  };
 }
 
 /**
- * Check if an agent wallet exists
+ * An existing wallet to import as an agent wallet
+ */
+export type WalletImport =
+  | { type: "privateKey"; privateKey: string }
+  | { type: "mnemonic"; mnemonic: string; path: string }
+  | { type: "keystore"; json: string; password: string };
+
+/**
+ * Backup file of an agent wallet: a keystore v3 of its key, so any wallet that imports
+ * keystores can recover the funds, plus the agent's metadata (not encrypted)
+ */
+export interface AgentWalletBackup extends KeystoreV3 {
+  x402?: {
+    name: string;
+    createdAt: number;
+    /** Path the key was derived at, the recovery phrase itself is not included */
+    derivationPath?: string;
+    /** Authorization policy with the payments settled under it */
+    authorization?: Omit<AgentAuthorization, "walletAddress">;
+  };
+}
+
+export function isLegacyWalletData(data: AgentWalletData): data is LegacyAgentWalletData {
+  return data.version === undefined || data.version === 1;
+}
+
+function readWallets(): AgentWalletData[] {
+  const stored = localStorage.getItem(AGENT_WALLETS_KEY);
+  if (!stored) return [];
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+}
+
+function writeWallets(wallets: AgentWalletData[]): void {
+  localStorage.setItem(AGENT_WALLETS_KEY, JSON.stringify(wallets));
+}
+
+/**
+ * Move the wallet of the single-wallet storage into the keyed store, selected
+ */
+function migrateSingleWalletStorage(): void {
+  const stored = localStorage.getItem(LEGACY_AGENT_WALLET_KEY);
+  if (!stored) return;
+
+  try {
+    const walletData = JSON.parse(stored);
+    const id = crypto.randomUUID();
+    writeWallets([...readWallets(), { ...walletData, id, name: DEFAULT_WALLET_NAME }]);
+    localStorage.setItem(SELECTED_AGENT_WALLET_KEY, id);
+  } catch (error) {
+    console.error("Failed to migrate stored agent wallet:", error);
+  }
+  localStorage.removeItem(LEGACY_AGENT_WALLET_KEY);
+  localStorage.removeItem(LEGACY_AGENT_WALLET_CREATED_KEY);
+}
+
+/**
+ * Stored agent wallets (still encrypted), oldest first
+ */
+export function listAgentWallets({ includeArchived = false } = {}): AgentWalletData[] {
+  if (typeof window === "undefined") return [];
+  migrateSingleWalletStorage();
+
+  const wallets = readWallets();
+  return includeArchived ? wallets : wallets.filter(wallet => !wallet.archivedAt);
+}
+
+/**
+ * ID of the wallet the agent uses: the selected one if it is still active, else the first active one
+ */
+export function getSelectedAgentWalletId(): string | null {
+  if (typeof window === "undefined") return null;
+  const wallets = listAgentWallets();
+  const selected = localStorage.getItem(SELECTED_AGENT_WALLET_KEY);
+  return wallets.find(wallet => wallet.id === selected)?.id ?? wallets[0]?.id ?? null;
+}
+
+export function selectAgentWallet(id: string): void {
+  localStorage.setItem(SELECTED_AGENT_WALLET_KEY, id);
+}
+
+/**
+ * Stored data of a wallet (still encrypted), the selected wallet by default
+ */
+export function getAgentWalletData(id = getSelectedAgentWalletId()): AgentWalletData | null {
+  if (!id) return null;
+  return listAgentWallets({ includeArchived: true }).find(wallet => wallet.id === id) ?? null;
+}
+
+function saveAgentWalletData(walletData: AgentWalletData): void {
+  const wallets = listAgentWallets({ includeArchived: true });
+  const exists = wallets.some(wallet => wallet.id === walletData.id);
+  writeWallets(exists
+    ? wallets.map(wallet => (wallet.id === walletData.id ? walletData : wallet))
+    : [...wallets, walletData]);
+}
+
+/**
+ * Check if any active agent wallet exists
  */
 export function hasAgentWallet(): boolean {
-  if (typeof window === "undefined") return false;
-  return localStorage.getItem(AGENT_WALLET_KEY) !== null;
+  return listAgentWallets().length > 0;
+}
+
+/**
+ * Encryption secret from the main wallet: its signature of a fixed message
+ * Requires a wallet with deterministic signatures (standard EOAs), otherwise use a passphrase
+ */
+export async function getSignatureSecret(account: Account): Promise<string> {
+  return account.signMessage({ message: WALLET_ENCRYPTION.UNLOCK_MESSAGE });
+}
+
+async function encryptWallet(
+  wallet: AgentWallet,
+  secret: string,
+  keySource: KeySource
+): Promise<EncryptedAgentWalletData> {
+  return {
+    version: AGENT_WALLET_VERSION,
+    id: wallet.id,
+    name: wallet.name,
+    address: wallet.address,
+    keySource,
+    encryptedPrivateKey: await encryptSecret(wallet.privateKey, secret),
+    hd: wallet.hd && {
+      seedId: wallet.hd.seedId,
+      path: wallet.hd.path,
+      encryptedMnemonic: await encryptSecret(wallet.hd.mnemonic, secret),
+    },
+    createdAt: wallet.createdAt,
+  };
+}
+
+/**
+ * Encrypt and store a new agent wallet, and select it
+ * Throws if the address is already stored, archived wallets included
+ */
+async function addAgentWallet(
+  name: string,
+  privateKey: string,
+  hd: AgentWallet["hd"],
+  secret: string,
+  keySource: KeySource,
+  client: ReturnType<typeof createThirdwebClient>,
+  createdAt = Date.now()
+): Promise<AgentWallet> {
+  const address = await getAddressFromPrivateKey(privateKey, client);
+  const existing = listAgentWallets({ includeArchived: true })
+    .find(wallet => wallet.address.toLowerCase() === address.toLowerCase());
+  if (existing) {
+    throw new Error(`This wallet is already stored as "${existing.name}"`);
+  }
+
+  const wallet: AgentWallet = { id: crypto.randomUUID(), name, address, privateKey, createdAt, hd };
+  saveAgentWalletData(await encryptWallet(wallet, secret, keySource));
+  selectAgentWallet(wallet.id);
+  return wallet;
 }
 
 /**
- * Create a new agent wallet
- * Uses the user's main wallet address as the encryption key
+ * Create a new named agent wallet, encrypted with a passphrase or wallet signature secret
+ * Existing wallets are kept; the new one becomes the selected wallet
  */
 export async function createAgentWallet(
-  userAddress: string,
+  name: string,
+  secret: string,
+  keySource: KeySource,
   client: ReturnType<typeof createThirdwebClient>
 ): Promise<AgentWallet> {
-  const privateKey = generatePrivateKey();
-  const address = await getAddressFromPrivateKey(privateKey, client);
-  
-  // Encrypt private key using user's address as password
-  const encryptedPrivateKey = simpleEncrypt(privateKey, userAddress);
-  
-  const walletData: AgentWalletData = {
-    address,
-    encryptedPrivateKey,
-    createdAt: Date.now(),
-  };
-  
-  // Store in localStorage
-  localStorage.setItem(AGENT_WALLET_KEY, JSON.stringify(walletData));
-  localStorage.setItem(AGENT_WALLET_CREATED_KEY, "true");
-  
+  return addAgentWallet(name, generatePrivateKey(), undefined, secret, keySource, client);
+}
+
+/**
+ * Import an existing wallet from a private key, a recovery phrase and derivation path,
+ * or a keystore v3 file, encrypted like a created wallet
+ */
+export async function importAgentWallet(
+  name: string,
+  source: WalletImport,
+  secret: string,
+  keySource: KeySource,
+  client: ReturnType<typeof createThirdwebClient>
+): Promise<AgentWallet> {
+  switch (source.type) {
+    case "privateKey":
+      return addAgentWallet(name, normalizePrivateKey(source.privateKey), undefined, secret, keySource, client);
+    case "keystore":
+      return addAgentWallet(name, await keystorePrivateKey(source.json, source.password, client), undefined, secret, keySource, client);
+    case "mnemonic": {
+      const mnemonic = normalizeMnemonic(source.mnemonic);
+      const privateKey = await privateKeyFromMnemonic(mnemonic, source.path);
+      // Wallets already derived from this phrase share its seed ID, for deriving the next one
+      const seedId = await findSeedId(mnemonic, secret) ?? crypto.randomUUID();
+      return addAgentWallet(name, privateKey, { seedId, path: source.path, mnemonic }, secret, keySource, client);
+    }
+  }
+}
+
+/**
+ * Decrypt a keystore's private key, checking it belongs to the address the keystore names
+ */
+async function keystorePrivateKey(
+  json: string,
+  password: string,
+  client: ReturnType<typeof createThirdwebClient>
+): Promise<string> {
+  const { address } = parseKeystore(json);
+  const privateKey = normalizePrivateKey(await decryptKeystore(json, password));
+  if (address) {
+    const derived = await getAddressFromPrivateKey(privateKey, client);
+    if (derived.toLowerCase() !== `0x${address.replace(/^0x/i, "")}`.toLowerCase()) {
+      throw new KeystoreError(`Keystore key belongs to ${derived}, not the address it names (${address})`);
+    }
+  }
+  return privateKey;
+}
+
+/**
+ * Seed ID of stored wallets derived from a phrase, if the secret decrypts one of them
+ */
+async function findSeedId(mnemonic: string, secret: string): Promise<string | null> {
+  for (const wallet of listAgentWallets({ includeArchived: true })) {
+    if (isLegacyWalletData(wallet) || !wallet.hd) continue;
+    try {
+      if (await decryptSecret(wallet.hd.encryptedMnemonic, secret) === mnemonic) {
+        return wallet.hd.seedId;
+      }
+    } catch {
+      // Encrypted with another secret
+    }
+  }
+  return null;
+}
+
+/**
+ * Next unused standard path of a seed: one past the highest account index derived so far
+ */
+export function nextDerivationPath(seedId: string): string {
+  const indexes = listAgentWallets({ includeArchived: true })
+    .flatMap(wallet => (!isLegacyWalletData(wallet) && wallet.hd?.seedId === seedId ? [derivationIndex(wallet.hd.path)] : []))
+    .filter((index): index is number => index !== null);
+  return derivationPathAt(indexes.length > 0 ? Math.max(...indexes) + 1 : 0);
+}
+
+/**
+ * Derive a new agent wallet at the next path of an unlocked HD wallet's recovery phrase
+ */
+export async function deriveAgentWallet(
+  parent: AgentWallet,
+  name: string,
+  secret: string,
+  keySource: KeySource,
+  client: ReturnType<typeof createThirdwebClient>
+): Promise<AgentWallet> {
+  if (!parent.hd) {
+    throw new Error(`${parent.name} was not created from a recovery phrase`);
+  }
+
+  const path = nextDerivationPath(parent.hd.seedId);
+  const privateKey = await privateKeyFromMnemonic(parent.hd.mnemonic, path);
+  return addAgentWallet(name, privateKey, { ...parent.hd, path }, secret, keySource, client);
+}
+
+/**
+ * Decrypt a stored agent wallet
+ * Throws DecryptionError on a wrong secret, and for legacy data, which must be migrated first
+ */
+export async function unlockAgentWallet(id: string, secret: string): Promise<AgentWallet | null> {
+  const walletData = getAgentWalletData(id);
+  if (!walletData) return null;
+  if (isLegacyWalletData(walletData)) {
+    throw new DecryptionError("Agent wallet uses the legacy format and must be migrated");
+  }
+
+  const privateKey = await decryptSecret(walletData.encryptedPrivateKey, secret);
   return {
-    address,
+    id: walletData.id,
+    name: walletData.name,
+    address: walletData.address,
     privateKey,
     createdAt: walletData.createdAt,
+    hd: walletData.hd && {
+      seedId: walletData.hd.seedId,
+      path: walletData.hd.path,
+      mnemonic: await decryptSecret(walletData.hd.encryptedMnemonic, secret),
+    },
   };
 }
 
 /**
- * Load existing agent wallet
+ * Re-encrypt a legacy (XOR) agent wallet with a passphrase or wallet signature secret
+ * The legacy key is checked against the stored address, so a wallet created for
+ * another account is never overwritten with a garbage key
  */
-export function loadAgentWallet(userAddress: string): AgentWallet | null {
-  if (typeof window === "undefined") return null;
-  
-  const stored = localStorage.getItem(AGENT_WALLET_KEY);
-  if (!stored) return null;
-  
+export async function migrateLegacyAgentWallet(
+  id: string,
+  userAddress: string,
+  secret: string,
+  keySource: KeySource,
+  client: ReturnType<typeof createThirdwebClient>
+): Promise<AgentWallet> {
+  const walletData = getAgentWalletData(id);
+  if (!walletData || !isLegacyWalletData(walletData)) {
+    throw new Error("No legacy agent wallet to migrate");
+  }
+
+  const privateKey = decryptLegacySecret(walletData.encryptedPrivateKey, userAddress);
+  let address: string | null = null;
   try {
-    const walletData: AgentWalletData = JSON.parse(stored);
-    const privateKey = simpleDecrypt(walletData.encryptedPrivateKey, userAddress);
-    
-    return {
-      address: walletData.address,
-      privateKey,
-      createdAt: walletData.createdAt,
-    };
-  } catch (error) {
-    console.error("Failed to load agent wallet:", error);
-    return null;
+    address = await getAddressFromPrivateKey(privateKey, client);
+  } catch {
+    // Not a valid key - wrong address
+  }
+  if (address?.toLowerCase() !== walletData.address.toLowerCase()) {
+    throw new DecryptionError("Agent wallet was created with a different main wallet");
   }
+
+  const wallet: AgentWallet = {
+    id: walletData.id,
+    name: walletData.name,
+    address: walletData.address,
+    privateKey,
+    createdAt: walletData.createdAt,
+  };
+  saveAgentWalletData(await encryptWallet(wallet, secret, keySource));
+  return wallet;
 }
 
 /**
- * Get agent wallet address only (no decryption needed)
+ * Get the selected agent wallet's address only (no decryption needed)
  */
 export function getAgentWalletAddress(): string | null {
-  if (typeof window === "undefined") return null;
-  
-  const stored = localStorage.getItem(AGENT_WALLET_KEY);
-  if (!stored) return null;
-  
-  try {
-    const walletData: AgentWalletData = JSON.parse(stored);
-    return walletData.address;
-  } catch {
-    return null;
-  }
+  return getAgentWalletData()?.address ?? null;
+}
+
+/**
+ * Archive a wallet: it keeps its encrypted key, budget and history but leaves the switcher
+ */
+export function archiveAgentWallet(id: string): void {
+  const walletData = getAgentWalletData(id);
+  if (!walletData) return;
+  saveAgentWalletData({ ...walletData, archivedAt: Date.now() });
+}
+
+export function unarchiveAgentWallet(id: string): void {
+  const walletData = getAgentWalletData(id);
+  if (!walletData) return;
+  saveAgentWalletData({ ...walletData, archivedAt: undefined });
 }
 
 /**
- * Delete agent wallet
+ * Delete an agent wallet and its key for good
  */
-export function deleteAgentWallet(): void {
+export function deleteAgentWallet(id: string): void {
   if (typeof window === "undefined") return;
-  localStorage.removeItem(AGENT_WALLET_KEY);
-  localStorage.removeItem(AGENT_WALLET_CREATED_KEY);
+  writeWallets(listAgentWallets({ includeArchived: true }).filter(wallet => wallet.id !== id));
 }
 
 /**
@@ -180,10 +505,17 @@ export async function getUSDCBalance(
   client: ReturnType<typeof createThirdwebClient>
 ): Promise<bigint> {
   try {
+    // Local facilitator keeps balances in its in-memory ledger
+    if (FACILITATOR_MODE === "local") {
+      const response = await fetch(`${API_ENDPOINTS.LOCAL_LEDGER}?address=${address}`);
+      const data = await response.json();
+      return BigInt(data.balance);
+    }
+
     const contract = getContract({
       client,
-      chain: avalancheFuji,
-      address: USDC_FUJI_ADDRESS,
+      chain: ACTIVE_NETWORK.chain,
+      address: ACTIVE_NETWORK.usdc.address,
     });
 
     const balance = await readContract({
@@ -208,11 +540,71 @@ export function formatUSDCBalance(balance: bigint): string {
 }
 
 /**
- * Export agent wallet private key (for backup)
+ * Export an unlocked agent wallet as a password-protected backup file (JSON)
  */
-export function exportAgentWallet(userAddress: string): string | null {
-  const wallet = loadAgentWallet(userAddress);
-  if (!wallet) return null;
-  return wallet.privateKey;
+export async function exportAgentWallet(wallet: AgentWallet, password: string): Promise<string> {
+  const authorization = loadAuthorization(wallet.address);
+  const backup: AgentWalletBackup = {
+    ...(await encryptKeystore(wallet.privateKey, password, wallet.address)),
+    x402: {
+      name: wallet.name,
+      createdAt: wallet.createdAt,
+      derivationPath: wallet.hd?.path,
+      authorization: authorization
+        ? { policy: authorization.policy, spends: authorization.spends, createdAt: authorization.createdAt }
+        : undefined,
+    },
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+/**
+ * Wallet restored from a backup, with why its authorization policy was dropped, if it was
+ */
+export interface RestoredAgentWallet {
+  wallet: AgentWallet;
+  policyWarning: string | null;
+}
+
+/**
+ * Restore an agent wallet from a backup file (or any keystore v3), with its name,
+ * creation time and authorization policy, encrypted like a created wallet
+ * The metadata isn't covered by the keystore MAC, so a policy that fails validation is dropped
+ */
+export async function restoreAgentWallet(
+  json: string,
+  password: string,
+  secret: string,
+  keySource: KeySource,
+  client: ReturnType<typeof createThirdwebClient>
+): Promise<RestoredAgentWallet> {
+  const { x402: metadata, address } = parseKeystore(json) as AgentWalletBackup;
+  // The metadata is only attached to the address the backup names
+  if (metadata && !address) {
+    throw new KeystoreError("Backup has wallet metadata but no address");
+  }
+  const privateKey = await keystorePrivateKey(json, password, client);
+
+  const wallet = await addAgentWallet(
+    typeof metadata?.name === "string" && metadata.name.trim() ? metadata.name.trim() : RESTORED_WALLET_NAME,
+    privateKey,
+    undefined,
+    secret,
+    keySource,
+    client,
+    Number.isFinite(metadata?.createdAt) ? metadata?.createdAt : undefined
+  );
+
+  let policyWarning: string | null = null;
+  if (metadata?.authorization) {
+    try {
+      saveAuthorization(parseAuthorization(metadata.authorization, wallet.address));
+    } catch (error) {
+      console.error("Dropped the backup's authorization policy:", error);
+      policyWarning = `The backup's authorization policy was not restored (${
+        error instanceof Error ? error.message : "invalid policy"}), the default policy applies instead`;
+    }
+  }
+  return { wallet, policyWarning };
 }
 
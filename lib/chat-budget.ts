@@ -0,0 +1,81 @@
+import { CHAT_BUDGET } from "./constants";
+import type { ChatQuote } from "./chat-quote";
+
+/**
+ * AI chat session budget, amounts in USDC smallest units (6 decimals)
+ * With upto payments a message authorizes its worst case but settles less,
+ * so authorized caps are tracked apart from actual spend
+ */
+export interface ChatBudget {
+  /** Session spending limit, null for no limit */
+  limit: number | null;
+  /** Settled for completed messages */
+  spent: number;
+  /** Worst-case caps of messages still in flight */
+  reserved: number;
+  /** Worst-case caps authorized this session, in flight or settled */
+  authorized: number;
+}
+
+export type BudgetWarning = (typeof CHAT_BUDGET.WARNING_THRESHOLDS)[number];
+
+export type BudgetCheck = { allowed: true } | { allowed: false; reason: string };
+
+export function createChatBudget(limit: number | null = CHAT_BUDGET.DEFAULT_LIMIT || null): ChatBudget {
+  return { limit, spent: 0, reserved: 0, authorized: 0 };
+}
+
+/**
+ * Budget left for new messages: the limit minus actual spend and in-flight worst cases
+ */
+export function remainingBudget(budget: ChatBudget): number | null {
+  if (budget.limit === null) return null;
+  return Math.max(budget.limit - budget.spent - budget.reserved, 0);
+}
+
+/**
+ * Highest warning threshold reached by actual spend, null below the first
+ */
+export function budgetWarning(budget: ChatBudget): BudgetWarning | null {
+  if (!budget.limit) return null;
+  const percent = (budget.spent / budget.limit) * 100;
+  return [...CHAT_BUDGET.WARNING_THRESHOLDS].reverse().find(threshold => percent >= threshold) ?? null;
+}
+
+/**
+ * Max cost to request with a message, so the quote lowers its cap to the remaining budget
+ * Undefined without a limit, or once it is exhausted (checkBudget blocks the message)
+ */
+export function budgetMaxCost(budget: ChatBudget): number | undefined {
+  return remainingBudget(budget) || undefined;
+}
+
+/**
+ * Check a message quote against the budget
+ * Blocked when even the lowered worst case doesn't fit what remains
+ */
+export function checkBudget(budget: ChatBudget, quote: Pick<ChatQuote, "maxValue">): BudgetCheck {
+  const remaining = remainingBudget(budget);
+  if (remaining === null) return { allowed: true };
+  if (remaining === 0) {
+    return { allowed: false, reason: "Session budget exhausted, raise or reset it to keep chatting" };
+  }
+  if (quote.maxValue > remaining) {
+    return { allowed: false, reason: "This message's minimum cap exceeds the remaining session budget" };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Reserve a message's worst case while it is in flight
+ */
+export function reserveBudget(budget: ChatBudget, maxValue: number): ChatBudget {
+  return { ...budget, reserved: budget.reserved + maxValue, authorized: budget.authorized + maxValue };
+}
+
+/**
+ * Release a message's reservation, recording what was actually settled (0 if it failed)
+ */
+export function settleBudget(budget: ChatBudget, maxValue: number, cost: number): ChatBudget {
+  return { ...budget, reserved: Math.max(budget.reserved - maxValue, 0), spent: budget.spent + cost };
+}
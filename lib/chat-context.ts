@@ -0,0 +1,118 @@
+import { CHAT_CONTEXT } from "./constants";
+import { DEFAULT_CHAT_MODEL, resolveChatModel } from "./pricing";
+import type { ChatModelPricing } from "./pricing";
+import { calculateInputCost } from "./token-pricing";
+import type { TokenCounter } from "./tokenizer";
+
+/**
+ * A previous turn of the conversation
+ */
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Limits for the history sent with each message
+ */
+export interface ContextPolicy {
+  /** Max prompt tokens of the history, counted with the model's tokenizer */
+  maxTokens: number;
+  maxMessages: number;
+}
+
+export const DEFAULT_CONTEXT_POLICY: ContextPolicy = {
+  maxTokens: CHAT_CONTEXT.MAX_TOKENS,
+  maxMessages: CHAT_CONTEXT.MAX_MESSAGES,
+};
+
+/**
+ * Check that a request body's history is a list of user/assistant messages
+ */
+export function isChatHistory(value: unknown): value is ChatMessage[] {
+  return Array.isArray(value) && value.every(message =>
+    typeof message === "object" && message !== null &&
+    (message.role === "user" || message.role === "assistant") &&
+    typeof message.content === "string"
+  );
+}
+
+/**
+ * Trim the history to the context policy, dropping the oldest messages first
+ * Messages are counted with the given counter, the model's tokenizer on the server so the context
+ * matches the quoted prompt tokens and the upto cap
+ */
+export function trimHistory(
+  history: ChatMessage[],
+  counter: Pick<TokenCounter, "count">,
+  policy: ContextPolicy = DEFAULT_CONTEXT_POLICY
+): ChatMessage[] {
+  const trimmed: ChatMessage[] = [];
+  let tokens = 0;
+
+  for (let i = history.length - 1; i >= 0 && trimmed.length < policy.maxMessages; i--) {
+    const messageTokens = counter.count(history[i].content);
+    if (tokens + messageTokens > policy.maxTokens) break;
+    tokens += messageTokens;
+    trimmed.unshift(history[i]);
+  }
+
+  // Start the context on a user turn
+  while (trimmed.length > 0 && trimmed[0].role !== "user") {
+    trimmed.shift();
+  }
+  return trimmed;
+}
+
+/**
+ * Validate the message, model, history and optional maxCost, system prompt and temperature of a chat request body
+ * Returns the error message, or null if the request is valid
+ */
+export function validateChatRequest(body: {
+  message?: unknown;
+  model?: unknown;
+  history?: unknown;
+  maxCost?: unknown;
+  system?: unknown;
+  temperature?: unknown;
+}): string | null {
+  if (!body.message || typeof body.message !== "string") {
+    return "Message is required";
+  }
+  if (!resolveChatModel(body.model)) {
+    return `Unknown model: ${body.model}`;
+  }
+  if (body.history !== undefined && !isChatHistory(body.history)) {
+    return "History must be a list of user/assistant messages";
+  }
+  if (body.maxCost !== undefined && (!Number.isInteger(body.maxCost) || (body.maxCost as number) <= 0)) {
+    return "maxCost must be a positive amount in USDC units";
+  }
+  if (body.system !== undefined && (typeof body.system !== "string" || body.system.length > CHAT_CONTEXT.MAX_SYSTEM_LENGTH)) {
+    return `System prompt must be text of at most ${CHAT_CONTEXT.MAX_SYSTEM_LENGTH} characters`;
+  }
+  if (body.temperature !== undefined &&
+    (typeof body.temperature !== "number" || body.temperature < 0 || body.temperature > 2)) {
+    return "Temperature must be a number between 0 and 2";
+  }
+  return null;
+}
+
+/**
+ * History from a chat request body, trimmed to the context policy with the model's token counter
+ */
+export function contextFromHistory(history: unknown, counter: TokenCounter): ChatMessage[] {
+  return trimHistory(isChatHistory(history) ? history : [], counter);
+}
+
+/**
+ * Split a message cost into the part from the context (at the input rate) and the part from the new message
+ */
+export function splitContextCost(
+  cost: number,
+  contextTokens: number,
+  model: ChatModelPricing = DEFAULT_CHAT_MODEL
+): { context: number; message: number } {
+  const context = Math.min(calculateInputCost(contextTokens, model), cost);
+  return { context, message: cost - context };
+}
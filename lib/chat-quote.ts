@@ -0,0 +1,133 @@
+import type { ChatModelPricing } from "./pricing";
+import type { ChatMessage } from "./chat-context";
+import type { ChatCompletionRequest } from "./llm-provider";
+import { calculateInputCost, calculateTokenCost, formatUSDCShort } from "./token-pricing";
+import { getTokenCounter } from "./tokenizer";
+import type { TokenCounter } from "./tokenizer";
+
+/**
+ * Pre-flight cost quote for an AI chat message
+ * Amounts are USDC smallest units (6 decimals)
+ */
+export interface ChatQuote {
+  model: string;
+  tokenizer: { name: string; exact: boolean };
+  promptTokens: number;
+  /** Tokens of the system prompt (persona), counted as context */
+  systemTokens: number;
+  contextTokens: number;
+  messageTokens: number;
+  /** Completion tokens the model may generate (max_tokens) */
+  maxOutputTokens: number;
+  /** max_tokens was lowered so the worst case fits the requested maxCost */
+  lowered: boolean;
+  /** Expected cost: prompt only (empty reply) up to a reply of maxOutputTokens */
+  cost: {
+    min: number;
+    max: number;
+    formattedMin: string;
+    formattedMax: string;
+  };
+  /** Recommended maxValue for wrapFetchWithPayment, equal to the upto cap the route requires */
+  maxValue: number;
+}
+
+/**
+ * Cost of a prompt, from an empty reply up to one of maxOutputTokens
+ * Worst case is a full-length reply, never more than the model's cap plus the context
+ */
+function costRange(
+  promptTokens: number,
+  contextTokens: number,
+  maxOutputTokens: number,
+  model: ChatModelPricing
+): { min: number; max: number } {
+  const ceiling = calculateInputCost(contextTokens, model) + model.maxAmount;
+  return {
+    min: Math.min(calculateTokenCost(promptTokens, 0, model), ceiling),
+    max: Math.min(calculateTokenCost(promptTokens, maxOutputTokens, model), ceiling),
+  };
+}
+
+/**
+ * Completion tokens that fit in maxCost after the prompt, at least 1
+ */
+function fitOutputTokens(promptTokens: number, maxCost: number, model: ChatModelPricing): number {
+  const available = maxCost - calculateInputCost(promptTokens, model);
+  return Math.max(Math.floor((available * 1000) / model.outputRate), 1);
+}
+
+export interface ChatQuoteOptions {
+  /** Lower max_tokens so the worst case fits this amount when possible (e.g. a session budget) */
+  maxCost?: number;
+  /** System prompt sent before the context */
+  system?: string;
+}
+
+/**
+ * Quote a chat message with its (already trimmed) context and system prompt
+ * The route sizes its upto cap with the same quote, so the recommended maxValue always matches
+ */
+export async function quoteChat(
+  message: string,
+  context: ChatMessage[],
+  model: ChatModelPricing,
+  { maxCost, system }: ChatQuoteOptions = {}
+): Promise<ChatQuote> {
+  const counter = await getTokenCounter(model.id);
+  const systemTokens = system ? counter.count(system) : 0;
+  const contextTokens = context.reduce((sum, m) => sum + counter.count(m.content), 0);
+  const messageTokens = counter.count(message);
+  const promptTokens = systemTokens + contextTokens + messageTokens;
+
+  // The system prompt is priced like the context, on top of the model's cap
+  let maxOutputTokens = model.maxOutputTokens;
+  let { min, max } = costRange(promptTokens, systemTokens + contextTokens, maxOutputTokens, model);
+  const lowered = maxCost !== undefined && max > maxCost;
+  if (lowered) {
+    maxOutputTokens = Math.min(fitOutputTokens(promptTokens, maxCost, model), model.maxOutputTokens);
+    ({ min, max } = costRange(promptTokens, systemTokens + contextTokens, maxOutputTokens, model));
+  }
+
+  return {
+    model: model.id,
+    tokenizer: { name: counter.name, exact: counter.exact },
+    promptTokens,
+    systemTokens,
+    contextTokens,
+    messageTokens,
+    maxOutputTokens,
+    lowered,
+    cost: {
+      min,
+      max,
+      formattedMin: formatUSDCShort(min),
+      formattedMax: formatUSDCShort(max),
+    },
+    maxValue: max,
+  };
+}
+
+/**
+ * Prompt tokens of a completion request: message contents, tool calls and tool definitions
+ */
+export function countPromptTokens(request: ChatCompletionRequest, counter: TokenCounter): number {
+  const tools = request.tools?.length ? counter.count(JSON.stringify(request.tools)) : 0;
+  return tools + request.messages.reduce((sum, m) =>
+    sum + counter.count(m.content ?? "") +
+    (m.toolCalls ?? []).reduce((calls, call) => calls + counter.count(call.function.name + call.function.arguments), 0),
+  0);
+}
+
+/**
+ * Worst-case cost of an OpenAI-style completion request, the upto cap of /v1/chat/completions
+ * Everything before the last message counts as context, like the AI chat history
+ */
+export async function quoteCompletion(request: ChatCompletionRequest, model: ChatModelPricing): Promise<number> {
+  const counter = await getTokenCounter(model.id);
+  const promptTokens = countPromptTokens(request, counter);
+  const last = request.messages.slice(-1);
+  const lastTokens = countPromptTokens({ ...request, messages: last, tools: undefined }, counter);
+  const maxOutputTokens = request.maxTokens ?? model.maxOutputTokens;
+  return costRange(promptTokens, promptTokens - lastTokens, maxOutputTokens, model).max;
+}
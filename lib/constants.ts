@@ -1,46 +1,223 @@
+import { avalanche, avalancheFuji, base, baseSepolia } from "thirdweb/chains";
+import type { Chain } from "thirdweb/chains";
+
+// Token Configuration
+export interface TokenConfig {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+  // EIP-712 domain of the token contract (transferWithAuthorization)
+  eip712: { name: string; version: string };
+  // USD value of one token, used to convert USD prices into token amounts
+  usdRate: number;
+}
+
+// EUR/USD rate used to price EURC payments
+const EURC_USD_RATE = Number(process.env.NEXT_PUBLIC_EURC_USD_RATE || "1.08");
+
 // Network Configuration
-export const AVALANCHE_FUJI_CHAIN_ID = 43113;
+export interface NetworkConfig {
+  name: string;
+  chain: Chain;
+  usdc: TokenConfig;
+  // Additional payment assets accepted on this network
+  extraAssets: readonly TokenConfig[];
+  nativeSymbol: string;
+  explorerUrl: string;
+  faucetUrl?: string;
+}
+
+// Chain registry - add an entry to run the kit on another network
+export const NETWORKS = {
+  "avalanche-fuji": {
+    name: "Avalanche Fuji Testnet",
+    chain: avalancheFuji,
+    usdc: {
+      symbol: "USDC",
+      address: "0x5425890298aed601595a70AB815c96711a31Bc65",
+      decimals: 6,
+      eip712: { name: "USD Coin", version: "2" },
+      usdRate: 1,
+    },
+    extraAssets: [{
+      symbol: "EURC",
+      address: "0x5E44db7996c682E92a960b65AC713a54AD815c6B",
+      decimals: 6,
+      eip712: { name: "EURC", version: "2" },
+      usdRate: EURC_USD_RATE,
+    }],
+    nativeSymbol: "AVAX",
+    explorerUrl: "https://testnet.snowtrace.io",
+    faucetUrl: "https://faucet.circle.com",
+  },
+  "avalanche": {
+    name: "Avalanche C-Chain",
+    chain: avalanche,
+    usdc: {
+      symbol: "USDC",
+      address: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E",
+      decimals: 6,
+      eip712: { name: "USD Coin", version: "2" },
+      usdRate: 1,
+    },
+    extraAssets: [{
+      symbol: "EURC",
+      address: "0xC891EB4cbdEFf6e073e859e987815Ed1505c2ACD",
+      decimals: 6,
+      eip712: { name: "EURC", version: "2" },
+      usdRate: EURC_USD_RATE,
+    }],
+    nativeSymbol: "AVAX",
+    explorerUrl: "https://snowtrace.io",
+  },
+  "base-sepolia": {
+    name: "Base Sepolia Testnet",
+    chain: baseSepolia,
+    usdc: {
+      symbol: "USDC",
+      address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      decimals: 6,
+      eip712: { name: "USDC", version: "2" },
+      usdRate: 1,
+    },
+    extraAssets: [{
+      symbol: "EURC",
+      address: "0x808456652fdb597867f38412077A9182bf77359F",
+      decimals: 6,
+      eip712: { name: "EURC", version: "2" },
+      usdRate: EURC_USD_RATE,
+    }],
+    nativeSymbol: "ETH",
+    explorerUrl: "https://sepolia.basescan.org",
+    faucetUrl: "https://faucet.circle.com",
+  },
+  "base": {
+    name: "Base",
+    chain: base,
+    usdc: {
+      symbol: "USDC",
+      address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      decimals: 6,
+      eip712: { name: "USD Coin", version: "2" },
+      usdRate: 1,
+    },
+    extraAssets: [{
+      symbol: "EURC",
+      address: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+      decimals: 6,
+      eip712: { name: "EURC", version: "2" },
+      usdRate: EURC_USD_RATE,
+    }],
+    nativeSymbol: "ETH",
+    explorerUrl: "https://basescan.org",
+  },
+} as const satisfies Record<string, NetworkConfig>;
+
+export type NetworkId = keyof typeof NETWORKS;
+
+function isNetworkId(networkId: string): networkId is NetworkId {
+  return networkId in NETWORKS;
+}
+
+function resolveActiveNetworkId(): NetworkId {
+  const networkId = process.env.NEXT_PUBLIC_X402_NETWORK || "avalanche-fuji";
+  if (!isNetworkId(networkId)) {
+    throw new Error(`Unknown network "${networkId}". Supported: ${Object.keys(NETWORKS).join(", ")}`);
+  }
+  return networkId;
+}
+
+// Active network, selected by NEXT_PUBLIC_X402_NETWORK (defaults to Avalanche Fuji)
+export const ACTIVE_NETWORK_ID: NetworkId = resolveActiveNetworkId();
+export const ACTIVE_NETWORK: NetworkConfig = NETWORKS[ACTIVE_NETWORK_ID];
+
+export interface AcceptedPayment {
+  networkId: NetworkId;
+  symbol: string;
+}
 
-// Token Addresses (Avalanche Fuji Testnet)
-export const USDC_FUJI_ADDRESS = "0x5425890298aed601595a70AB815c96711a31Bc65" as `0x${string}`;
+function resolveAcceptedPayments(): AcceptedPayment[] {
+  const accepts = process.env.NEXT_PUBLIC_X402_ACCEPTS || `${ACTIVE_NETWORK_ID}:USDC`;
+  return accepts.split(",").map((entry) => {
+    const [networkId, symbol = "USDC"] = entry.trim().split(":");
+    if (!isNetworkId(networkId)) {
+      throw new Error(`Unknown network "${networkId}" in NEXT_PUBLIC_X402_ACCEPTS`);
+    }
+    const network: NetworkConfig = NETWORKS[networkId];
+    if (![network.usdc, ...network.extraAssets].some(asset => asset.symbol === symbol)) {
+      throw new Error(`Unknown asset "${symbol}" on ${networkId} in NEXT_PUBLIC_X402_ACCEPTS`);
+    }
+    return { networkId, symbol };
+  });
+}
+
+// Payment options advertised by every paid route, selected by NEXT_PUBLIC_X402_ACCEPTS
+// (comma-separated network:asset pairs, defaults to USDC on the active network)
+export const ACCEPTED_PAYMENTS: AcceptedPayment[] = resolveAcceptedPayments();
 
 // API Configuration
 export const API_ENDPOINTS = {
   BASIC: "/api/basic",
   PREMIUM: "/api/premium",
   AI_CHAT: "/api/ai-chat",
+  AI_CHAT_QUOTE: "/api/ai-chat/quote",
   AGENT: "/api/agent",
+  LOCAL_LEDGER: "/api/local-ledger",
+  RECEIPTS: "/api/receipts",
+  PRICING: "/api/pricing",
+  CHAT_COMPLETIONS: "/v1/chat/completions",
 } as const;
 
-// Payment Amounts (USDC with 6 decimals)
-export const PAYMENT_AMOUNTS = {
-  BASIC: {
-    amount: "10000", // $0.01 USDC
-    bigInt: BigInt(10000),
-  },
-  PREMIUM: {
-    amount: "150000", // $0.15 USDC
-    bigInt: BigInt(150000),
-  },
-} as const;
+// Route prices live in lib/pricing.ts
 
-// Token-based pricing for AI chat (USDC with 6 decimals)
+// Token formatting for AI chat (USDC with 6 decimals)
 export const TOKEN_PRICING = {
-  RATE_PER_1K_TOKENS: 1000, // $0.001 per 1K tokens = 1000 USDC units
-  MAX_CHAT_PAYMENT: 500000, // $0.50 max cap per message
   USDC_DECIMALS: 6,
 } as const;
 
 // Agent authorization settings
 export const AGENT_AUTHORIZATION = {
-  SERVICE_COST: 20000, // $0.02 per service call (USDC with 6 decimals)
   DEFAULT_BUDGET: 750000, // $0.75 default budget
   DEFAULT_EXPIRY_HOURS: 1, // 1 hour default expiry
   MAX_BUDGET: 5000000, // $5.00 max budget
+  MAX_EXPIRY_HOURS: 168, // 1 week max expiry
+  DEFAULT_MAX_PER_CALL: 100000, // $0.10 per payment
+  DEFAULT_MAX_PER_HOUR: 500000, // $0.50 in any rolling hour
+} as const;
+
+// Agent wallet key encryption (AES-GCM with a PBKDF2-derived key)
+export const WALLET_ENCRYPTION = {
+  PBKDF2_ITERATIONS: 600000, // OWASP recommendation for PBKDF2-HMAC-SHA256
+  MIN_PASSPHRASE_LENGTH: 8,
+  // Signed by the main wallet to derive the key when no passphrase is used
+  UNLOCK_MESSAGE: "Unlock my x402 agent wallet.\n\nThis signature is used as an encryption key. Only sign it on this site.",
 } as const;
 
 // OpenRouter configuration for AI chat
 export const OPENROUTER_CONFIG = {
-  API_URL: "https://openrouter.ai/api/v1/chat/completions",
+  BASE_URL: "https://openrouter.ai/api/v1",
+  APP_URL: "https://x402-demo.vercel.app", // sent as HTTP-Referer for OpenRouter app attribution
+  APP_TITLE: "x402 AI Chat Demo",
   FREE_MODEL: "mistralai/devstral-2512:free",
 } as const;
+
+// Conversation context sent with each AI chat message, oldest messages are trimmed first
+export const CHAT_CONTEXT = {
+  MAX_TOKENS: Number(process.env.NEXT_PUBLIC_CHAT_CONTEXT_TOKENS || "2000"), // estimated prompt tokens of history
+  MAX_MESSAGES: Number(process.env.NEXT_PUBLIC_CHAT_CONTEXT_MESSAGES || "20"),
+  MAX_SYSTEM_LENGTH: 8000, // characters of a persona's system prompt
+} as const;
+
+// AI chat session budget, warnings at these percentages of the limit
+export const CHAT_BUDGET = {
+  DEFAULT_LIMIT: Number(process.env.NEXT_PUBLIC_CHAT_BUDGET || "1000000"), // $1.00 in USDC units, 0 for no limit
+  WARNING_THRESHOLDS: [50, 80, 100],
+} as const;
+
+// Facilitator selection: "thirdweb" (default) or "local" for offline development
+export const FACILITATOR_MODE = process.env.NEXT_PUBLIC_X402_FACILITATOR === "local" ? "local" : "thirdweb";
+
+// Local facilitator settings (in-memory USDC ledger)
+export const LOCAL_FACILITATOR = {
+  FAUCET_AMOUNT: process.env.LOCAL_FACILITATOR_FAUCET_AMOUNT || "10000000", // $10 credited to new addresses
+} as const;
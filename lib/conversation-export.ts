@@ -0,0 +1,90 @@
+import type { Conversation, ConversationMessage } from "./conversation-store";
+import { formatPriceAmount } from "./pricing";
+import { formatUSDC } from "./token-pricing";
+import { downloadFile } from "./download";
+
+export type ExportFormat = "json" | "markdown";
+
+const ROLE_LABELS: Record<ConversationMessage["role"], string> = {
+  user: "You",
+  assistant: "Assistant",
+  system: "System",
+};
+
+/**
+ * Conversation as JSON, with every message's tokens, cost, itemization and transactions
+ */
+export function conversationToJSON(conversation: Conversation): string {
+  return JSON.stringify(
+    {
+      ...conversation,
+      formattedTotalSpent: formatUSDC(conversation.totalSpent),
+      exportedAt: new Date().toISOString(),
+    },
+    null,
+    2
+  );
+}
+
+function costLines(message: ConversationMessage): string[] {
+  const lines: string[] = [];
+  if (message.tokens) {
+    const { inputTokens, outputTokens, totalTokens, contextTokens } = message.tokens;
+    const context = contextTokens ? ` (${contextTokens} from context)` : "";
+    lines.push(`Tokens: ${inputTokens} input${context} / ${outputTokens} output / ${totalTokens} total`);
+  }
+
+  const item = message.itemization;
+  if (item) {
+    lines.push(`Prompt: ${item.promptTokens} × ${formatPriceAmount(item.inputRate)}/1K = ${formatUSDC(item.promptCost)}`);
+    lines.push(`Completion: ${item.completionTokens} × ${formatPriceAmount(item.outputRate)}/1K = ${formatUSDC(item.completionCost)}`);
+    if (item.minimumAdjustment > 0) lines.push(`Minimum charge: +${formatUSDC(item.minimumAdjustment)}`);
+    if (item.capAdjustment < 0) lines.push(`Cap applied: ${formatUSDC(item.capAdjustment)}`);
+  }
+  if (message.cost !== undefined) {
+    lines.push(`Cost: ${formatUSDC(message.cost)}`);
+  }
+  for (const transaction of message.transactions ?? []) {
+    lines.push(`Transaction: ${transaction}`);
+  }
+  return lines;
+}
+
+/**
+ * Conversation as Markdown, with the cost breakdown quoted under each paid message
+ */
+export function conversationToMarkdown(conversation: Conversation): string {
+  const header = [
+    `# ${conversation.title}`,
+    "",
+    `- Created: ${conversation.createdAt}`,
+    ...(conversation.model ? [`- Model: ${conversation.model}`] : []),
+    `- Messages: ${conversation.messages.length}`,
+    `- Total spent: ${formatUSDC(conversation.totalSpent)}`,
+  ];
+
+  const messages = conversation.messages.map((message) => {
+    const time = message.timestamp ? ` (${message.timestamp})` : "";
+    const costs = costLines(message);
+    return [
+      `## ${ROLE_LABELS[message.role]}${time}`,
+      "",
+      message.content,
+      ...(costs.length > 0 ? ["", ...costs.map(line => `> ${line}  `)] : []),
+    ].join("\n");
+  });
+
+  return `${header.join("\n")}\n\n${messages.join("\n\n")}\n`;
+}
+
+/**
+ * Download a conversation as a JSON or Markdown file
+ */
+export function downloadConversation(conversation: Conversation, format: ExportFormat): void {
+  const filename = `${conversation.kind}-${conversation.createdAt.slice(0, 10)}-${conversation.id.slice(0, 8)}`;
+  if (format === "json") {
+    downloadFile(`${filename}.json`, conversationToJSON(conversation), "application/json");
+  } else {
+    downloadFile(`${filename}.md`, conversationToMarkdown(conversation), "text/markdown");
+  }
+}
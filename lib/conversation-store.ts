@@ -0,0 +1,125 @@
+import type { CostItemization } from "./token-pricing";
+
+// IndexedDB database for conversations, kept in the browser across reloads
+const DB_NAME = "x402-conversations";
+const DB_VERSION = 1;
+const STORE = "conversations";
+
+export type ConversationKind = "chat" | "agent";
+
+/**
+ * A message of a stored conversation, with its cost trail
+ */
+export interface ConversationMessage {
+  id: string;
+  role: "user" | "assistant" | "system";
+  content: string;
+  /** ISO timestamp */
+  timestamp?: string;
+  tokens?: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    contextTokens?: number;
+  };
+  /** Settled cost in USDC smallest units */
+  cost?: number;
+  formattedCost?: string;
+  itemization?: CostItemization;
+  /** Settlement transaction hashes of the payments for this message */
+  transactions?: string[];
+  isError?: boolean;
+}
+
+/**
+ * A conversation of the AI chat or the agent, with its messages and total spend
+ */
+export interface Conversation<M extends ConversationMessage = ConversationMessage> {
+  id: string;
+  kind: ConversationKind;
+  title: string;
+  /** Chat model of the last message */
+  model?: string;
+  /** Agent wallet that paid for the conversation */
+  walletAddress?: string;
+  messages: M[];
+  /** Sum of the settled message costs, USDC smallest units */
+  totalSpent: number;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("kind", "kind");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a request against the conversations store
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Title from the first user message
+ */
+export function conversationTitle(messages: ConversationMessage[], fallback: string): string {
+  const first = messages.find(m => m.role === "user")?.content.trim();
+  if (!first) return fallback;
+  return first.length > 40 ? `${first.slice(0, 40)}…` : first;
+}
+
+/**
+ * Sum of the settled costs of the messages
+ */
+export function conversationSpend(messages: ConversationMessage[]): number {
+  return messages.reduce((sum, m) => sum + (m.cost ?? 0), 0);
+}
+
+/**
+ * Save (insert or replace) a conversation
+ */
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  await withStore("readwrite", store => store.put(conversation));
+}
+
+/**
+ * Load a conversation by ID, null if it doesn't exist
+ */
+export async function loadConversation(id: string): Promise<Conversation | null> {
+  return (await withStore<Conversation | undefined>("readonly", store => store.get(id))) ?? null;
+}
+
+/**
+ * List the conversations of a kind, most recently updated first
+ */
+export async function listConversations(kind: ConversationKind): Promise<Conversation[]> {
+  const conversations = await withStore<Conversation[]>("readonly", store => store.index("kind").getAll(kind));
+  return conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore("readwrite", store => store.delete(id));
+}
@@ -0,0 +1,36 @@
+import { facilitator } from "thirdweb/x402";
+import type { ThirdwebX402Facilitator } from "thirdweb/x402";
+import { createThirdwebClient } from "thirdweb";
+import { FACILITATOR_MODE } from "./constants";
+import { localFacilitator } from "./local-facilitator";
+
+/**
+ * Facilitator used to verify and settle x402 payments
+ * Any implementation of the thirdweb facilitator shape can be plugged in
+ */
+export type X402Facilitator = ThirdwebX402Facilitator;
+
+let cachedFacilitator: X402Facilitator | null = null;
+
+function thirdwebFacilitator(): X402Facilitator {
+  const client = createThirdwebClient({
+    secretKey: process.env.THIRDWEB_SECRET_KEY!,
+  });
+
+  return facilitator({
+    client,
+    serverWalletAddress: process.env.THIRDWEB_SERVER_WALLET_ADDRESS!,
+  });
+}
+
+/**
+ * Get the facilitator selected by NEXT_PUBLIC_X402_FACILITATOR
+ * - thirdweb (default): thirdweb facilitator with an ERC4337 server wallet
+ * - local: in-memory USDC ledger for offline development and tests
+ */
+export function getFacilitator(): X402Facilitator {
+  if (!cachedFacilitator) {
+    cachedFacilitator = FACILITATOR_MODE === "local" ? localFacilitator() : thirdwebFacilitator();
+  }
+  return cachedFacilitator;
+}
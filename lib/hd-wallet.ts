@@ -0,0 +1,68 @@
+import { HDKey } from "@scure/bip32";
+import { generateMnemonic, mnemonicToSeed, validateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+import { bytesToHex } from "@noble/hashes/utils";
+
+// BIP-44 path of Ethereum accounts, ending in the account index
+export const DERIVATION_PATH_PREFIX = "m/44'/60'/0'/0/";
+export const DEFAULT_DERIVATION_PATH = `${DERIVATION_PATH_PREFIX}0`;
+
+/**
+ * Lowercase with single spaces, as BIP-39 expects
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+}
+
+/**
+ * Check the words and checksum of an English BIP-39 mnemonic
+ */
+export function isValidMnemonic(mnemonic: string): boolean {
+  return validateMnemonic(normalizeMnemonic(mnemonic), wordlist);
+}
+
+/**
+ * New random 12-word mnemonic
+ */
+export function createMnemonic(): string {
+  return generateMnemonic(wordlist, 128);
+}
+
+export function isValidDerivationPath(path: string): boolean {
+  return /^m(\/\d+'?)+$/.test(path);
+}
+
+/**
+ * Path of the account at an index, e.g. m/44'/60'/0'/0/2
+ */
+export function derivationPathAt(index: number): string {
+  return `${DERIVATION_PATH_PREFIX}${index}`;
+}
+
+/**
+ * Account index of a standard Ethereum path, null for other paths
+ */
+export function derivationIndex(path: string): number | null {
+  if (!path.startsWith(DERIVATION_PATH_PREFIX)) return null;
+  const index = path.slice(DERIVATION_PATH_PREFIX.length);
+  return /^\d+$/.test(index) ? Number(index) : null;
+}
+
+/**
+ * Derive the 0x private key at a path from a mnemonic
+ */
+export async function privateKeyFromMnemonic(mnemonic: string, path: string): Promise<string> {
+  if (!isValidMnemonic(mnemonic)) {
+    throw new Error("Invalid recovery phrase");
+  }
+  if (!isValidDerivationPath(path)) {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+
+  const seed = await mnemonicToSeed(normalizeMnemonic(mnemonic));
+  const key = HDKey.fromMasterSeed(seed).derive(path);
+  if (!key.privateKey) {
+    throw new Error(`No private key at ${path}`);
+  }
+  return `0x${bytesToHex(key.privateKey)}`;
+}
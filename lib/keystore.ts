@@ -0,0 +1,207 @@
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+
+// scrypt cost of exported keystores, the same as ethers' default
+const SCRYPT_N = 131072;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+// Limits on imported KDF parameters, so a crafted keystore can't freeze or exhaust the tab
+// scrypt needs 128 * n * r bytes and n * r * p work; geth's "standard" n = 2**18, r = 8, p = 1
+// (256 MB) is the most allowed
+const MAX_SCRYPT_N = 2 ** 18;
+const MAX_SCRYPT_R = 16;
+const MAX_SCRYPT_P = 16;
+const MAX_SCRYPT_COST = MAX_SCRYPT_N * 8;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+// The MAC needs the second half of a 32-byte derived key
+const MIN_DKLEN = 32;
+const MAX_DKLEN = 64;
+
+/**
+ * Ethereum keystore (Web3 Secret Storage v3): the private key encrypted with AES-128-CTR
+ * under a scrypt or PBKDF2 key, with a keccak256 MAC
+ * Binary fields are hex without 0x
+ */
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address?: string;
+  crypto: {
+    cipher: "aes-128-ctr";
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: ScryptParams | Pbkdf2Params;
+    mac: string;
+  };
+}
+
+interface ScryptParams {
+  dklen: number;
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+interface Pbkdf2Params {
+  dklen: number;
+  c: number;
+  prf: "hmac-sha256";
+  salt: string;
+}
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeystoreError";
+  }
+}
+
+function strip0x(hex: string): string {
+  return hex.startsWith("0x") ? hex.slice(2) : hex;
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+/**
+ * Reject KDF parameters that are malformed or too costly, before deriving anything
+ */
+function checkKdfParams(kdf: string, params: ScryptParams | Pbkdf2Params): void {
+  if (typeof params !== "object" || params === null || typeof params.salt !== "string") {
+    throw new KeystoreError("Keystore KDF parameters are malformed");
+  }
+  if (!isIntegerInRange(params.dklen, MIN_DKLEN, MAX_DKLEN)) {
+    throw new KeystoreError(`Keystore dklen must be between ${MIN_DKLEN} and ${MAX_DKLEN}`);
+  }
+
+  if (kdf === "scrypt") {
+    const { n, r, p } = params as ScryptParams;
+    if (!isIntegerInRange(n, 2, MAX_SCRYPT_N) || (n & (n - 1)) !== 0) {
+      throw new KeystoreError(`Keystore scrypt n must be a power of two up to ${MAX_SCRYPT_N}`);
+    }
+    if (!isIntegerInRange(r, 1, MAX_SCRYPT_R) || !isIntegerInRange(p, 1, MAX_SCRYPT_P)) {
+      throw new KeystoreError(`Keystore scrypt r and p must be between 1 and ${MAX_SCRYPT_R}`);
+    }
+    if (n * r * p > MAX_SCRYPT_COST) {
+      throw new KeystoreError("Keystore scrypt parameters are too costly to decrypt in the browser");
+    }
+  } else if (kdf === "pbkdf2") {
+    if (!isIntegerInRange((params as Pbkdf2Params).c, 1, MAX_PBKDF2_ITERATIONS)) {
+      throw new KeystoreError(`Keystore PBKDF2 iterations must be between 1 and ${MAX_PBKDF2_ITERATIONS}`);
+    }
+  }
+}
+
+async function deriveKeystoreKey(password: string, kdf: string, params: ScryptParams | Pbkdf2Params): Promise<Uint8Array> {
+  checkKdfParams(kdf, params);
+  const salt = hexToBytes(strip0x(params.salt));
+
+  if (kdf === "scrypt") {
+    const { n, r, p, dklen } = params as ScryptParams;
+    return scryptAsync(password, salt, { N: n, r, p, dkLen: dklen });
+  }
+
+  if (kdf === "pbkdf2") {
+    const { c, dklen, prf } = params as Pbkdf2Params;
+    if (prf !== "hmac-sha256") {
+      throw new KeystoreError(`Unsupported keystore PRF: ${prf}`);
+    }
+    const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+    const bits = await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt: new Uint8Array(salt), iterations: c },
+      material,
+      dklen * 8
+    );
+    return new Uint8Array(bits);
+  }
+
+  throw new KeystoreError(`Unsupported keystore KDF: ${kdf}`);
+}
+
+async function aes128Ctr(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey("raw", new Uint8Array(key), "AES-CTR", false, ["encrypt"]);
+  const output = await crypto.subtle.encrypt(
+    { name: "AES-CTR", counter: new Uint8Array(iv), length: 128 },
+    cryptoKey,
+    new Uint8Array(data)
+  );
+  return new Uint8Array(output);
+}
+
+function keystoreMac(derivedKey: Uint8Array, ciphertext: Uint8Array): string {
+  const macInput = new Uint8Array(16 + ciphertext.length);
+  macInput.set(derivedKey.slice(16, 32));
+  macInput.set(ciphertext, 16);
+  return bytesToHex(keccak_256(macInput));
+}
+
+/**
+ * Parse a keystore file, accepting the "Crypto" key some clients write
+ */
+export function parseKeystore(json: string): KeystoreV3 {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new KeystoreError("Keystore is not valid JSON");
+  }
+
+  const cryptoSection = data.crypto ?? data.Crypto;
+  if (data.version !== 3 || !cryptoSection) {
+    throw new KeystoreError("Not a version 3 keystore");
+  }
+  return { ...data, crypto: cryptoSection } as KeystoreV3;
+}
+
+/**
+ * Decrypt a keystore, returns the 0x private key
+ * Throws KeystoreError on a wrong password (the MAC doesn't match)
+ */
+export async function decryptKeystore(json: string, password: string): Promise<string> {
+  const keystore = parseKeystore(json);
+  const { cipher, ciphertext, cipherparams, kdf, kdfparams, mac } = keystore.crypto;
+  if (cipher !== "aes-128-ctr") {
+    throw new KeystoreError(`Unsupported keystore cipher: ${cipher}`);
+  }
+
+  const derivedKey = await deriveKeystoreKey(password, kdf, kdfparams);
+  const ciphertextBytes = hexToBytes(strip0x(ciphertext));
+  if (keystoreMac(derivedKey, ciphertextBytes) !== strip0x(mac).toLowerCase()) {
+    throw new KeystoreError("Wrong keystore password");
+  }
+
+  const privateKey = await aes128Ctr(derivedKey.slice(0, 16), hexToBytes(strip0x(cipherparams.iv)), ciphertextBytes);
+  return `0x${bytesToHex(privateKey)}`;
+}
+
+/**
+ * Encrypt a 0x private key as a keystore with a scrypt key
+ * Readable by any wallet that imports keystore files (geth, MetaMask, ethers)
+ */
+export async function encryptKeystore(privateKey: string, password: string, address: string): Promise<KeystoreV3> {
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+  const iv = crypto.getRandomValues(new Uint8Array(16));
+  const kdfparams: ScryptParams = { dklen: 32, n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: bytesToHex(salt) };
+
+  const derivedKey = await deriveKeystoreKey(password, "scrypt", kdfparams);
+  const ciphertext = await aes128Ctr(derivedKey.slice(0, 16), iv, hexToBytes(strip0x(privateKey)));
+
+  return {
+    version: 3,
+    id: crypto.randomUUID(),
+    address: strip0x(address).toLowerCase(),
+    crypto: {
+      cipher: "aes-128-ctr",
+      ciphertext: bytesToHex(ciphertext),
+      cipherparams: { iv: bytesToHex(iv) },
+      kdf: "scrypt",
+      kdfparams,
+      mac: keystoreMac(derivedKey, ciphertext),
+    },
+  };
+}
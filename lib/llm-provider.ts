@@ -0,0 +1,235 @@
+/**
+ * Tool the model may call, in the OpenAI function tool format
+ */
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    /** JSON Schema of the arguments */
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    /** Arguments as a JSON string, as generated by the model */
+    arguments: string;
+  };
+}
+
+export type ToolChoice = "auto" | "none" | "required" | { type: "function"; function: { name: string } };
+
+export interface ChatCompletionMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  /** Null for assistant messages that only call tools */
+  content: string | null;
+  /** Tool calls made by an assistant message */
+  toolCalls?: ToolCall[];
+  /** Tool message: ID of the tool call it answers */
+  toolCallId?: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletionUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletion {
+  content: string;
+  toolCalls: ToolCall[];
+  /** Why generation stopped: stop, length, tool_calls, content_filter */
+  finishReason: string | null;
+  /** Usage reported by the provider, null if it didn't report any */
+  usage: ChatCompletionUsage | null;
+  /** Provider and model that produced the completion (may differ from the request after a fallback) */
+  provider: string;
+  model: string;
+}
+
+/**
+ * Event of a streaming completion
+ * - start: provider and model that are answering, always first
+ * - delta: next chunk of content
+ * - tool_call: next fragment of the tool call at index, id and name come with its first fragment
+ * - finish: why generation stopped
+ * - usage: usage reported by the provider, usually last
+ */
+export type ChatStreamEvent =
+  | { type: "start"; provider: string; model: string }
+  | { type: "delta"; content: string }
+  | { type: "tool_call"; index: number; id?: string; name?: string; arguments: string }
+  | { type: "finish"; reason: string }
+  | { type: "usage"; usage: ChatCompletionUsage };
+
+/**
+ * LLM provider used by the AI chat
+ * Any implementation can be plugged in, see getLLMProvider() in lib/llm.ts
+ */
+export interface LLMProvider {
+  name: string;
+  complete: (request: ChatCompletionRequest) => Promise<ChatCompletion>;
+  stream: (request: ChatCompletionRequest) => AsyncIterable<ChatStreamEvent>;
+}
+
+/**
+ * Error taxonomy shared by all providers
+ */
+export type LLMErrorCode =
+  | "auth"
+  | "rate_limit"
+  | "invalid_request"
+  | "model_not_found"
+  | "unavailable"
+  | "timeout"
+  | "network"
+  | "aborted"
+  | "unknown";
+
+export class LLMProviderError extends Error {
+  readonly code: LLMErrorCode;
+  readonly provider: string;
+  readonly status?: number;
+
+  constructor(code: LLMErrorCode, provider: string, message: string, status?: number) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.code = code;
+    this.provider = provider;
+    this.status = status;
+  }
+
+  /** Whether another provider or model may succeed where this one failed */
+  get canFallback(): boolean {
+    return this.code !== "invalid_request" && this.code !== "aborted";
+  }
+}
+
+/**
+ * Map an HTTP error status from a provider to the error taxonomy
+ */
+export function errorFromStatus(provider: string, status: number, message: string): LLMProviderError {
+  const code: LLMErrorCode =
+    status === 401 || status === 403 ? "auth"
+      : status === 404 ? "model_not_found"
+        : status === 429 ? "rate_limit"
+          : status === 408 || status === 504 ? "timeout"
+            : status === 400 || status === 413 || status === 422 ? "invalid_request"
+              : status >= 500 ? "unavailable"
+                : "unknown";
+  return new LLMProviderError(code, provider, message, status);
+}
+
+/**
+ * Wrap any thrown value (fetch failures, aborts) in an LLMProviderError
+ */
+export function toProviderError(provider: string, error: unknown): LLMProviderError {
+  if (error instanceof LLMProviderError) return error;
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new LLMProviderError("timeout", provider, "Provider request timed out");
+  }
+  if (error instanceof Error && error.name === "AbortError") {
+    return new LLMProviderError("aborted", provider, "Request was aborted");
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new LLMProviderError(error instanceof TypeError ? "network" : "unknown", provider, message);
+}
+
+/**
+ * A provider in a fallback chain, optionally answering with a different model
+ */
+export interface FallbackEntry {
+  provider: LLMProvider;
+  model?: string;
+}
+
+/**
+ * Try each provider (and model) in order until one succeeds
+ * Streams only fall back before the first event, a stream that fails midway is not restarted
+ */
+export function fallbackChain(entries: FallbackEntry[]): LLMProvider {
+  const withModel = (request: ChatCompletionRequest, entry: FallbackEntry) =>
+    entry.model ? { ...request, model: entry.model } : request;
+
+  return {
+    name: entries.map(entry => entry.provider.name).join(" > "),
+
+    async complete(request) {
+      let lastError: LLMProviderError | null = null;
+      for (const entry of entries) {
+        try {
+          return await entry.provider.complete(withModel(request, entry));
+        } catch (error) {
+          lastError = toProviderError(entry.provider.name, error);
+          if (!lastError.canFallback) throw lastError;
+          console.warn(`LLM provider ${entry.provider.name} failed (${lastError.code}), trying next:`, lastError.message);
+        }
+      }
+      throw lastError ?? new LLMProviderError("unavailable", "fallback", "No LLM providers configured");
+    },
+
+    async *stream(request) {
+      let lastError: LLMProviderError | null = null;
+      for (const entry of entries) {
+        const iterator = entry.provider.stream(withModel(request, entry))[Symbol.asyncIterator]();
+        let first: IteratorResult<ChatStreamEvent>;
+        try {
+          first = await iterator.next();
+        } catch (error) {
+          lastError = toProviderError(entry.provider.name, error);
+          if (!lastError.canFallback) throw lastError;
+          console.warn(`LLM provider ${entry.provider.name} failed (${lastError.code}), trying next:`, lastError.message);
+          continue;
+        }
+
+        if (!first.done) yield first.value;
+        while (true) {
+          const next = await iterator.next();
+          if (next.done) return;
+          yield next.value;
+        }
+      }
+      throw lastError ?? new LLMProviderError("unavailable", "fallback", "No LLM providers configured");
+    },
+  };
+}
+
+/**
+ * Start a stream and wait for its first event, so a provider failure is thrown before anything is streamed
+ * Returns who answered, from the start event, and the events after it; any other first event is kept
+ */
+export async function startStream(
+  provider: LLMProvider,
+  request: ChatCompletionRequest
+): Promise<{ events: AsyncIterator<ChatStreamEvent>; answeredBy: { provider: string; model: string } }> {
+  const iterator = provider.stream(request)[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (!first.done && first.value.type === "start") {
+    return { events: iterator, answeredBy: { provider: first.value.provider, model: first.value.model } };
+  }
+
+  async function* withFirst(): AsyncGenerator<ChatStreamEvent> {
+    if (first.done) return;
+    yield first.value;
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield next.value;
+    }
+  }
+  return { events: withFirst(), answeredBy: { provider: provider.name, model: request.model } };
+}
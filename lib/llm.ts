@@ -0,0 +1,43 @@
+import { fallbackChain } from "./llm-provider";
+import type { LLMProvider } from "./llm-provider";
+import { openAICompatibleProvider, openRouterProvider } from "./openai-compatible-provider";
+import { stubProvider } from "./stub-provider";
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case "openrouter":
+      return openRouterProvider();
+    case "openai-compatible":
+      return openAICompatibleProvider({
+        name,
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        model: process.env.OPENAI_COMPATIBLE_MODEL,
+      });
+    case "stub":
+      return stubProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${name}" in LLM_PROVIDERS`);
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Get the LLM provider chain selected by LLM_PROVIDERS
+ * Comma-separated provider[:model] entries tried in order, e.g.
+ * "openrouter,openrouter:mistralai/devstral-2512:free,stub"
+ * - openrouter (default): OpenRouter API with OPENROUTER_API_KEY
+ * - openai-compatible: any OpenAI-compatible server at OPENAI_COMPATIBLE_BASE_URL (llama.cpp, Ollama, vLLM)
+ * - stub: deterministic offline replies for development and tests
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    const entries = (process.env.LLM_PROVIDERS || "openrouter").split(",").map((entry) => {
+      const [name, ...model] = entry.trim().split(":");
+      return { provider: createProvider(name), model: model.join(":") || undefined };
+    });
+    cachedProvider = entries.length === 1 && !entries[0].model ? entries[0].provider : fallbackChain(entries);
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,274 @@
+import { createThirdwebClient, verifyTypedData } from "thirdweb";
+import type { ThirdwebX402Facilitator, PaymentRequiredResult } from "thirdweb/x402";
+import { ACTIVE_NETWORK, LOCAL_FACILITATOR } from "./constants";
+
+type Facilitator = ThirdwebX402Facilitator;
+type PaymentPayload = Parameters<Facilitator["verify"]>[0];
+type PaymentRequirements = Parameters<Facilitator["verify"]>[1];
+type VerifyResponse = Awaited<ReturnType<Facilitator["verify"]>>;
+type SettleResponse = Awaited<ReturnType<Facilitator["settle"]>>;
+type InvalidReason = NonNullable<VerifyResponse["invalidReason"]>;
+
+// EIP-3009 typed data signed by the client (see thirdweb/x402 sign)
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+} as const;
+
+interface LocalLedger {
+  /** Keyed by asset and payer, see balanceKey */
+  balances: Map<string, bigint>;
+  usedNonces: Set<string>;
+}
+
+// Keep the ledger on globalThis so every route module (and dev hot reloads) share it
+const globalForLedger = globalThis as typeof globalThis & {
+  __x402LocalLedger?: LocalLedger;
+};
+
+function getLedger(): LocalLedger {
+  if (!globalForLedger.__x402LocalLedger) {
+    globalForLedger.__x402LocalLedger = {
+      balances: new Map(),
+      usedNonces: new Set(),
+    };
+  }
+  return globalForLedger.__x402LocalLedger;
+}
+
+// Each asset has its own balances, so paying in one doesn't draw down another
+function balanceKey(asset: string, address: string): string {
+  return `${asset.toLowerCase()}:${address.toLowerCase()}`;
+}
+
+/**
+ * Get the local balance of an address in an asset (token address, USDC by default)
+ * Unknown addresses are credited with the faucet amount of each asset on first use
+ */
+export function getLocalBalance(address: string, asset: string = ACTIVE_NETWORK.usdc.address): bigint {
+  const { balances } = getLedger();
+  const key = balanceKey(asset, address);
+  if (!balances.has(key)) {
+    balances.set(key, BigInt(LOCAL_FACILITATOR.FAUCET_AMOUNT));
+  }
+  return balances.get(key)!;
+}
+
+function transferLocal(asset: string, from: string, to: string, amount: bigint): void {
+  const { balances } = getLedger();
+  balances.set(balanceKey(asset, from), getLocalBalance(from, asset) - amount);
+  balances.set(balanceKey(asset, to), getLocalBalance(to, asset) + amount);
+}
+
+function randomHex(bytes: number): string {
+  const array = new Uint8Array(bytes);
+  crypto.getRandomValues(array);
+  return "0x" + Array.from(array).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function toNetwork(network: Parameters<Facilitator["accepts"]>[0]["network"]): string {
+  return typeof network === "object" ? `eip155:${network.id}` : network;
+}
+
+function invalid(reason: InvalidReason, errorMessage: string, payer?: string): VerifyResponse {
+  return { isValid: false, invalidReason: reason, errorMessage, payer };
+}
+
+const client = createThirdwebClient({
+  clientId: process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "local-facilitator",
+});
+
+async function verifyAuthorization(
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<VerifyResponse> {
+  if (!("authorization" in payload.payload)) {
+    return invalid("invalid_payload", "Only EIP-3009 transferWithAuthorization payments are supported");
+  }
+  const { signature, authorization } = payload.payload;
+  const payer = authorization.from;
+
+  if (payload.scheme !== requirements.scheme) {
+    return invalid("invalid_scheme", `Expected scheme ${requirements.scheme}`, payer);
+  }
+  if (payload.network !== requirements.network) {
+    return invalid("invalid_network", `Expected network ${requirements.network}`, payer);
+  }
+  if (authorization.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+    return invalid("invalid_exact_evm_payload_recipient_mismatch", "Authorization is not payable to the merchant", payer);
+  }
+
+  // exact: value must cover the price, upto: value is the cap and must cover the charge
+  const value = BigInt(authorization.value);
+  const required = BigInt(requirements.maxAmountRequired);
+  if (value < required) {
+    return invalid("invalid_exact_evm_payload_authorization_value", `Authorized ${value} but ${required} is required`, payer);
+  }
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (now < BigInt(authorization.validAfter)) {
+    return invalid("invalid_exact_evm_payload_authorization_valid_after", "Authorization is not valid yet", payer);
+  }
+  if (now >= BigInt(authorization.validBefore)) {
+    return invalid("invalid_exact_evm_payload_authorization_valid_before", "Authorization has expired", payer);
+  }
+
+  if (getLedger().usedNonces.has(authorization.nonce.toLowerCase())) {
+    return invalid("invalid_payment", "Authorization nonce has already been used", payer);
+  }
+
+  const chainId = Number(requirements.network.split(":")[1]) || ACTIVE_NETWORK.chain.id;
+  const isValidSignature = await verifyTypedData({
+    address: payer,
+    signature: signature as `0x${string}`,
+    client,
+    chain: ACTIVE_NETWORK.chain,
+    domain: {
+      name: requirements.extra?.name,
+      version: requirements.extra?.version,
+      chainId,
+      verifyingContract: requirements.asset as `0x${string}`,
+    },
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: "TransferWithAuthorization",
+    message: {
+      from: authorization.from as `0x${string}`,
+      to: authorization.to as `0x${string}`,
+      value,
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce as `0x${string}`,
+    },
+  }).catch(() => false);
+  if (!isValidSignature) {
+    return invalid("invalid_exact_evm_payload_signature", "Signature does not match the authorization", payer);
+  }
+
+  if (getLocalBalance(payer, requirements.asset) < required) {
+    return invalid("insufficient_funds", `Payer balance is below ${required}`, payer);
+  }
+
+  return { isValid: true, payer };
+}
+
+/**
+ * Local facilitator backed by an in-memory ledger of each asset
+ * Verifies EIP-3009 authorizations without network access or a server wallet
+ */
+export function localFacilitator(): Facilitator {
+  const address = process.env.THIRDWEB_SERVER_WALLET_ADDRESS || "0x0000000000000000000000000000000000000000";
+
+  const facilitator: Facilitator = {
+    url: "local://facilitator",
+    address,
+    createAuthHeaders: async () => ({ verify: {}, settle: {}, supported: {}, list: {} }),
+
+    verify: verifyAuthorization,
+
+    async settle(payload, requirements): Promise<SettleResponse> {
+      const network = requirements.network;
+      const verification = await verifyAuthorization(payload, requirements);
+      if (!verification.isValid || !("authorization" in payload.payload)) {
+        return {
+          success: false,
+          errorReason: verification.invalidReason,
+          errorMessage: verification.errorMessage,
+          payer: verification.payer,
+          transaction: "",
+          network,
+        };
+      }
+
+      const { authorization } = payload.payload;
+      const { usedNonces } = getLedger();
+      const nonce = authorization.nonce.toLowerCase();
+      // Re-check after the async signature check so concurrent settles can't reuse a nonce
+      if (usedNonces.has(nonce)) {
+        return {
+          success: false,
+          errorReason: "invalid_payment",
+          errorMessage: "Authorization nonce has already been used",
+          payer: authorization.from,
+          transaction: "",
+          network,
+        };
+      }
+      usedNonces.add(nonce);
+
+      // upto: the requirements carry the actual charge, which may be below the signed cap
+      transferLocal(requirements.asset, authorization.from, requirements.payTo, BigInt(requirements.maxAmountRequired));
+
+      return {
+        success: true,
+        payer: authorization.from,
+        transaction: randomHex(32),
+        network,
+      };
+    },
+
+    async supported() {
+      return {
+        kinds: (["exact", "upto"] as const).map((scheme) => ({
+          x402Version: 1 as const,
+          scheme,
+          network: `eip155:${ACTIVE_NETWORK.chain.id}`,
+          extra: {
+            defaultAsset: {
+              address: ACTIVE_NETWORK.usdc.address,
+              decimals: 6,
+              eip712: {
+                ...ACTIVE_NETWORK.usdc.eip712,
+                primaryType: "TransferWithAuthorization" as const,
+              },
+            },
+          },
+        })),
+      };
+    },
+
+    async accepts(args): Promise<PaymentRequiredResult> {
+      const price = typeof args.price === "object"
+        ? args.price
+        : {
+          // Money ("$0.01") is priced in USDC
+          amount: String(Math.round(Number(String(args.price).replace(/[^0-9.]/g, "")) * 1_000_000)),
+          asset: { address: ACTIVE_NETWORK.usdc.address },
+        };
+
+      return {
+        status: 402,
+        responseHeaders: {
+          "Content-Type": "application/json",
+        },
+        responseBody: {
+          x402Version: 1,
+          error: "X-PAYMENT header is required",
+          accepts: [{
+            scheme: args.scheme ?? "exact",
+            network: toNetwork(args.network),
+            maxAmountRequired: price.amount,
+            resource: args.resourceUrl,
+            description: args.routeConfig?.description ?? "",
+            mimeType: args.routeConfig?.mimeType ?? "application/json",
+            payTo: args.payTo ?? address,
+            maxTimeoutSeconds: args.routeConfig?.maxTimeoutSeconds ?? 300,
+            asset: price.asset.address,
+            extra: {
+              name: price.asset.eip712?.name ?? ACTIVE_NETWORK.usdc.eip712.name,
+              version: price.asset.eip712?.version ?? ACTIVE_NETWORK.usdc.eip712.version,
+              primaryType: "TransferWithAuthorization",
+            },
+          }],
+        },
+      };
+    },
+  };
+
+  return facilitator;
+}
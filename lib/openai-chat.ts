@@ -0,0 +1,143 @@
+import { getChatModel } from "./pricing";
+import type { ChatModelPricing } from "./pricing";
+import type { ChatCompletionMessage, ChatCompletionRequest, ChatCompletionUsage, ToolCall, ToolChoice, ToolDefinition } from "./llm-provider";
+
+/**
+ * Message in the OpenAI chat completions request format
+ * Content may be a string or a list of content parts, only text parts are supported
+ */
+interface OpenAIMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content?: string | Array<{ type: string; text?: string }> | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * Request body of POST /v1/chat/completions (the supported subset of the OpenAI API)
+ */
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+}
+
+const ROLES = ["system", "developer", "user", "assistant", "tool"];
+
+/**
+ * Error in the OpenAI error format, so SDKs surface the message
+ */
+export function openAIError(message: string, type: string, status: number, code: string | null = null): Response {
+  return Response.json({ error: { message, type, param: null, code } }, { status });
+}
+
+function isTextContent(content: OpenAIMessage["content"]): boolean {
+  return content === undefined || content === null || typeof content === "string" ||
+    (Array.isArray(content) && content.every(part => part?.type === "text" && typeof part.text === "string"));
+}
+
+function isToolCalls(toolCalls: OpenAIMessage["tool_calls"]): boolean {
+  return toolCalls === undefined || (Array.isArray(toolCalls) && toolCalls.every(call =>
+    typeof call?.function?.name === "string" && typeof call.function.arguments === "string"));
+}
+
+/**
+ * Validate a chat completions request body
+ * Returns the error response, or null if the request is valid
+ */
+export function validateOpenAIChatRequest(body: Partial<OpenAIChatRequest>): Response | null {
+  if (typeof body.model !== "string") {
+    return openAIError("model is required", "invalid_request_error", 400);
+  }
+  if (!getChatModel(body.model)) {
+    return openAIError(`The model \`${body.model}\` does not exist`, "invalid_request_error", 404, "model_not_found");
+  }
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return openAIError("messages must be a non-empty list", "invalid_request_error", 400);
+  }
+  for (const message of body.messages) {
+    if (typeof message !== "object" || message === null || !ROLES.includes(message.role)) {
+      return openAIError("Each message needs a role of system, developer, user, assistant or tool", "invalid_request_error", 400);
+    }
+    if (!isTextContent(message.content)) {
+      return openAIError("Only text content is supported", "invalid_request_error", 400);
+    }
+    if (message.role === "tool" && typeof message.tool_call_id !== "string") {
+      return openAIError("Tool messages need a tool_call_id", "invalid_request_error", 400);
+    }
+    if (!isToolCalls(message.tool_calls)) {
+      return openAIError("tool_calls entries need a string function name and arguments", "invalid_request_error", 400);
+    }
+  }
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens;
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+    return openAIError("max_tokens must be a positive integer", "invalid_request_error", 400);
+  }
+  if (body.temperature !== undefined &&
+    (typeof body.temperature !== "number" || !(body.temperature >= 0 && body.temperature <= 2))) {
+    return openAIError("temperature must be a number between 0 and 2", "invalid_request_error", 400);
+  }
+  if (body.tools !== undefined && (!Array.isArray(body.tools) ||
+    !body.tools.every(tool => tool?.type === "function" && typeof tool.function?.name === "string"))) {
+    return openAIError("tools must be a list of function tools", "invalid_request_error", 400);
+  }
+  return null;
+}
+
+function textOf(content: OpenAIMessage["content"]): string | null {
+  if (content === undefined || content === null) return null;
+  return typeof content === "string" ? content : content.map(part => part.text).join("");
+}
+
+/**
+ * Convert a validated request to the LLM provider request
+ * max_tokens is capped at the model's maxOutputTokens, which bounds the upto cap
+ */
+export function toCompletionRequest(
+  body: OpenAIChatRequest,
+  model: ChatModelPricing,
+  signal?: AbortSignal
+): ChatCompletionRequest {
+  const messages: ChatCompletionMessage[] = body.messages.map(message => ({
+    // Providers that predate developer messages treat them as system messages
+    role: message.role === "developer" ? "system" : message.role,
+    content: textOf(message.content),
+    ...(message.tool_calls && { toolCalls: message.tool_calls }),
+    ...(message.tool_call_id && { toolCallId: message.tool_call_id }),
+  }));
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens;
+
+  return {
+    model: model.id,
+    messages,
+    maxTokens: Math.min(maxTokens ?? model.maxOutputTokens, model.maxOutputTokens),
+    temperature: body.temperature,
+    tools: body.tools,
+    toolChoice: body.tool_choice,
+    signal,
+  };
+}
+
+/**
+ * Usage in the OpenAI format
+ */
+export function toOpenAIUsage(usage: ChatCompletionUsage) {
+  return {
+    prompt_tokens: usage.inputTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: usage.totalTokens,
+  };
+}
+
+/**
+ * ID and creation time shared by a completion and all its chunks
+ */
+export function completionId(): { id: string; created: number } {
+  return { id: `chatcmpl-${crypto.randomUUID()}`, created: Math.floor(Date.now() / 1000) };
+}
@@ -0,0 +1,175 @@
+import { OPENROUTER_CONFIG } from "./constants";
+import { errorFromStatus, toProviderError, LLMProviderError } from "./llm-provider";
+import type { ChatCompletionMessage, ChatCompletionRequest, ChatCompletionUsage, LLMProvider, ToolCall } from "./llm-provider";
+import { iterateSSE } from "./sse";
+import { parseOpenRouterUsage } from "./token-pricing";
+
+interface OpenAIChatResponse {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: ToolCall[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+interface OpenAIStreamChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIChatResponse["usage"];
+}
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  /** Base URL of the API, /chat/completions is appended */
+  baseUrl: string;
+  apiKey?: string;
+  /** Model to use instead of the requested one, for servers that only serve their own model */
+  model?: string;
+  headers?: Record<string, string>;
+  /** Extra body fields for streaming requests (e.g. OpenRouter's usage accounting) */
+  streamOptions?: Record<string, unknown>;
+}
+
+function parseUsage(response: Pick<OpenAIChatResponse, "usage">): ChatCompletionUsage | null {
+  const usage = parseOpenRouterUsage(response);
+  return usage.totalTokens > 0 ? usage : null;
+}
+
+function toWireMessage(message: ChatCompletionMessage) {
+  return {
+    role: message.role,
+    content: message.content,
+    ...(message.toolCalls && { tool_calls: message.toolCalls }),
+    ...(message.toolCallId && { tool_call_id: message.toolCallId }),
+  };
+}
+
+/**
+ * Provider for any OpenAI-compatible chat completions API
+ * (OpenRouter, OpenAI, llama.cpp server, Ollama, vLLM)
+ */
+export function openAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const { name } = options;
+  const url = `${options.baseUrl.replace(/\/$/, "")}/chat/completions`;
+
+  async function post(request: ChatCompletionRequest, stream: boolean): Promise<{ response: Response; model: string }> {
+    const model = options.model || request.model;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+          ...options.headers,
+        },
+        body: JSON.stringify({
+          model,
+          messages: request.messages.map(toWireMessage),
+          ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.tools && { tools: request.tools }),
+          ...(request.toolChoice && { tool_choice: request.toolChoice }),
+          ...(stream && { stream: true, ...options.streamOptions }),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      throw toProviderError(name, error);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      console.error(`${name} error (${response.status}):`, errorText);
+      throw errorFromStatus(name, response.status, errorText || response.statusText);
+    }
+    return { response, model };
+  }
+
+  return {
+    name,
+
+    async complete(request) {
+      const { response, model } = await post(request, false);
+      const data: OpenAIChatResponse = await response.json();
+      const choice = data.choices?.[0];
+      return {
+        content: choice?.message?.content || "",
+        toolCalls: choice?.message?.tool_calls ?? [],
+        finishReason: choice?.finish_reason ?? null,
+        usage: parseUsage(data),
+        provider: name,
+        model: data.model || model,
+      };
+    },
+
+    async *stream(request) {
+      const { response, model } = await post(request, true);
+      if (!response.body) {
+        throw new LLMProviderError("unavailable", name, "Empty response body");
+      }
+      yield { type: "start", provider: name, model };
+
+      try {
+        for await (const event of iterateSSE(response.body)) {
+          if (event.data === "[DONE]") return;
+          const chunk: OpenAIStreamChunk = JSON.parse(event.data);
+
+          const choice = chunk.choices?.[0];
+          const content = choice?.delta?.content;
+          if (content) yield { type: "delta", content };
+
+          for (const toolCall of choice?.delta?.tool_calls ?? []) {
+            yield {
+              type: "tool_call",
+              index: toolCall.index,
+              id: toolCall.id,
+              name: toolCall.function?.name,
+              arguments: toolCall.function?.arguments ?? "",
+            };
+          }
+          if (choice?.finish_reason) yield { type: "finish", reason: choice.finish_reason };
+
+          const usage = chunk.usage ? parseUsage(chunk) : null;
+          if (usage) yield { type: "usage", usage };
+        }
+      } catch (error) {
+        throw toProviderError(name, error);
+      }
+    },
+  };
+}
+
+/**
+ * OpenRouter, with usage reported on streams too
+ */
+export function openRouterProvider(): LLMProvider {
+  return openAICompatibleProvider({
+    name: "openrouter",
+    baseUrl: OPENROUTER_CONFIG.BASE_URL,
+    apiKey: process.env.OPENROUTER_API_KEY,
+    headers: {
+      "HTTP-Referer": OPENROUTER_CONFIG.APP_URL,
+      "X-Title": OPENROUTER_CONFIG.APP_TITLE,
+    },
+    streamOptions: { usage: { include: true } },
+  });
+}
@@ -0,0 +1,82 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { PaymentScheme } from "./x402";
+import type { CostItemization } from "./token-pricing";
+
+// Append-only JSON lines file, one settled payment per line
+const LEDGER_PATH = process.env.PAYMENT_LEDGER_PATH || path.join(process.cwd(), ".data", "payment-ledger.jsonl");
+
+export interface PaymentLedgerEntry {
+  id: string;
+  /** Route pathname, e.g. /api/basic */
+  route: string;
+  payer: string | null;
+  /** Amount settled, in base units of the asset */
+  amount: string;
+  /** Asset symbol, e.g. USDC */
+  asset: string;
+  scheme: PaymentScheme;
+  txHash: string;
+  network: string;
+  resourceUrl: string;
+  /** Token-priced routes: how the amount was computed, in USD (USDC units) before conversion to the asset */
+  itemization?: CostItemization;
+  timestamp: string;
+}
+
+export interface PaymentLedgerFilters {
+  payer?: string;
+  route?: string;
+}
+
+/**
+ * Record a settled payment in the ledger
+ */
+export async function recordPayment(
+  entry: Omit<PaymentLedgerEntry, "id" | "timestamp">
+): Promise<PaymentLedgerEntry> {
+  const record: PaymentLedgerEntry = {
+    id: crypto.randomUUID(),
+    ...entry,
+    timestamp: new Date().toISOString(),
+  };
+
+  await mkdir(path.dirname(LEDGER_PATH), { recursive: true });
+  await appendFile(LEDGER_PATH, JSON.stringify(record) + "\n", "utf8");
+  return record;
+}
+
+/**
+ * Parse one ledger line, skipping a corrupt one (e.g. cut short by a crash mid-append)
+ */
+function parseLedgerLine(line: string, index: number): PaymentLedgerEntry[] {
+  try {
+    return [JSON.parse(line) as PaymentLedgerEntry];
+  } catch (error) {
+    console.error(`Skipping unparsable payment ledger line ${index + 1}:`, error);
+    return [];
+  }
+}
+
+/**
+ * List settled payments, newest first
+ */
+export async function listPayments(filters: PaymentLedgerFilters = {}): Promise<PaymentLedgerEntry[]> {
+  let contents: string;
+  try {
+    contents = await readFile(LEDGER_PATH, "utf8");
+  } catch (error) {
+    // No payments recorded yet
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const payer = filters.payer?.toLowerCase();
+  return contents
+    .split("\n")
+    .filter(line => line.trim())
+    .flatMap(parseLedgerLine)
+    .filter(entry => !payer || entry.payer?.toLowerCase() === payer)
+    .filter(entry => !filters.route || entry.route === filters.route)
+    .reverse();
+}
@@ -0,0 +1,98 @@
+import { NETWORKS, ACCEPTED_PAYMENTS, NetworkConfig, NetworkId, TokenConfig } from "./constants";
+
+/**
+ * A payment option advertised in the 402 response: one asset on one network
+ */
+export interface PaymentOption {
+  networkId: NetworkId;
+  network: NetworkConfig;
+  asset: TokenConfig;
+}
+
+/**
+ * Payment option as offered in a 402 response (subset of the x402 payment requirements)
+ */
+export interface OfferedPayment {
+  scheme: string;
+  network: string;
+  asset: string;
+  maxAmountRequired: string;
+}
+
+function getAssets(network: NetworkConfig): TokenConfig[] {
+  return [network.usdc, ...network.extraAssets];
+}
+
+/**
+ * Get the payment options accepted by paid routes
+ */
+export function getPaymentOptions(): PaymentOption[] {
+  return ACCEPTED_PAYMENTS.map(({ networkId, symbol }) => {
+    const network: NetworkConfig = NETWORKS[networkId];
+    return {
+      networkId,
+      network,
+      asset: getAssets(network).find(asset => asset.symbol === symbol)!,
+    };
+  });
+}
+
+/**
+ * Convert a USD price (USDC units, 6 decimals) into base units of the given asset
+ * Rounds up so the merchant never receives less than the USD price
+ */
+export function convertUsdAmount(usdAmount: string | number, asset: TokenConfig): string {
+  const usd = Number(usdAmount) / 1_000_000;
+  return String(Math.ceil((usd / asset.usdRate) * Math.pow(10, asset.decimals)));
+}
+
+/**
+ * Convert base units of the given asset into a USD amount (USDC units, 6 decimals)
+ * Rounds up so spending limits are never undercounted
+ */
+export function toUsdAmount(amount: string | number, asset: TokenConfig): number {
+  return Math.ceil((Number(amount) * asset.usdRate * 1_000_000) / Math.pow(10, asset.decimals));
+}
+
+/**
+ * Find the registry entry for an offered payment (network name or CAIP-2 ID + asset address)
+ */
+export function findPaymentOption(offer: Pick<OfferedPayment, "network" | "asset">): PaymentOption | null {
+  const chainId = offer.network.startsWith("eip155:") ? Number(offer.network.split(":")[1]) : null;
+
+  for (const [networkId, network] of Object.entries(NETWORKS) as [NetworkId, NetworkConfig][]) {
+    if (networkId !== offer.network && network.chain.id !== chainId) continue;
+    const asset = getAssets(network).find(a => a.address.toLowerCase() === offer.asset.toLowerCase());
+    if (asset) {
+      return { networkId, network, asset };
+    }
+  }
+  return null;
+}
+
+/**
+ * Format an asset amount for display, e.g. "0.0100 EURC"
+ */
+export function formatAssetAmount(amount: string | bigint, asset: TokenConfig): string {
+  const value = Number(amount) / Math.pow(10, asset.decimals);
+  return `${value.toFixed(value < 0.01 ? 4 : 2)} ${asset.symbol}`;
+}
+
+/**
+ * Stable key for a payment option, e.g. "avalanche-fuji:EURC"
+ */
+export function paymentOptionKey(option: PaymentOption): string {
+  return `${option.networkId}:${option.asset.symbol}`;
+}
+
+/**
+ * Build a paymentRequirementsSelector for wrapFetchWithPayment that picks the given option
+ * from the requirements offered in the 402 response
+ */
+export function selectPaymentOption(option: PaymentOption) {
+  return <T extends Pick<OfferedPayment, "network" | "asset">>(requirements: T[]): T | undefined =>
+    requirements.find(offer => {
+      const match = findPaymentOption(offer);
+      return match !== null && paymentOptionKey(match) === paymentOptionKey(option);
+    });
+}
@@ -1,3 +1,5 @@
+import { ACTIVE_NETWORK } from "./constants";
+
 /**
  * Normalizes ECDSA signature v value to legacy format (27/28)
  * 
@@ -46,8 +48,9 @@ export function normalizeSignatureV(signature: string, chainId: number): string
 
 /**
  * Creates a fetch wrapper that normalizes payment signatures
+ * Defaults to the active network's chain ID
  */
-export function createNormalizedFetch(chainId: number): typeof fetch {
+export function createNormalizedFetch(chainId: number = ACTIVE_NETWORK.chain.id): typeof fetch {
   return async (input, init) => {
     console.log('=== Normalized Fetch Called ===');
     console.log('URL:', input);
@@ -109,3 +112,16 @@ export function createNormalizedFetch(chainId: number): typeof fetch {
     return result;
   };
 }
+
+/**
+ * Settlement transaction hash from a paid response's X-PAYMENT-RESPONSE header, null if there is none
+ */
+export function getPaymentTransaction(response: Response): string | null {
+  const header = response.headers.get("X-PAYMENT-RESPONSE");
+  if (!header) return null;
+  try {
+    return JSON.parse(atob(header)).transaction || null;
+  } catch {
+    return null;
+  }
+}
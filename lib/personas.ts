@@ -0,0 +1,116 @@
+import { CHAT_CONTEXT } from "./constants";
+import { getChatModel, DEFAULT_CHAT_MODEL } from "./pricing";
+
+// localStorage key of the saved personas
+const PERSONAS_KEY = "x402_chat_personas";
+
+// Export file format version
+const PERSONAS_VERSION = 1;
+
+/**
+ * Saved chat persona: a system prompt with the model and temperature to use it with
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  /** Chat model ID from CHAT_MODELS */
+  model: string;
+  /** Sampling temperature, 0 to 2 */
+  temperature: number;
+}
+
+export const DEFAULT_TEMPERATURE = 0.7;
+
+export function createPersona(fields: Partial<Omit<Persona, "id">> = {}): Persona {
+  return {
+    id: crypto.randomUUID(),
+    name: "New persona",
+    systemPrompt: "",
+    model: DEFAULT_CHAT_MODEL.id,
+    temperature: DEFAULT_TEMPERATURE,
+    ...fields,
+  };
+}
+
+/**
+ * Check a persona's fields, returns the error message or null if it is valid
+ */
+export function validatePersona(persona: Partial<Persona>): string | null {
+  if (typeof persona.name !== "string" || !persona.name.trim()) {
+    return "Persona name is required";
+  }
+  if (typeof persona.systemPrompt !== "string" || persona.systemPrompt.length > CHAT_CONTEXT.MAX_SYSTEM_LENGTH) {
+    return `System prompt must be text of at most ${CHAT_CONTEXT.MAX_SYSTEM_LENGTH} characters`;
+  }
+  if (typeof persona.model !== "string" || !getChatModel(persona.model)) {
+    return `Unknown model: ${persona.model}`;
+  }
+  if (typeof persona.temperature !== "number" || persona.temperature < 0 || persona.temperature > 2) {
+    return "Temperature must be a number between 0 and 2";
+  }
+  return null;
+}
+
+/**
+ * Load the saved personas, skipping entries that are no longer valid (e.g. a removed model)
+ */
+export function loadPersonas(): Persona[] {
+  const stored = localStorage.getItem(PERSONAS_KEY);
+  if (!stored) return [];
+
+  try {
+    const personas: Persona[] = JSON.parse(stored);
+    return personas.filter(persona => validatePersona(persona) === null);
+  } catch {
+    return [];
+  }
+}
+
+export function savePersonas(personas: Persona[]): void {
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+}
+
+/**
+ * Personas as a shareable JSON file
+ */
+export function exportPersonas(personas: Persona[]): string {
+  return JSON.stringify(
+    {
+      version: PERSONAS_VERSION,
+      personas: personas.map(({ name, systemPrompt, model, temperature }) => ({ name, systemPrompt, model, temperature })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse an exported personas file, giving each persona a new ID
+ * Throws if the file or any persona is invalid
+ */
+export function importPersonas(json: string): Persona[] {
+  let data: { version?: unknown; personas?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Personas file is not valid JSON");
+  }
+  if (data.version !== PERSONAS_VERSION || !Array.isArray(data.personas)) {
+    throw new Error("Not a personas file");
+  }
+
+  return data.personas.map((entry: Partial<Persona>, index) => {
+    const persona = createPersona({
+      name: entry.name,
+      systemPrompt: entry.systemPrompt,
+      model: entry.model,
+      temperature: entry.temperature,
+    });
+    const error = validatePersona(persona);
+    if (error) {
+      throw new Error(`Persona ${index + 1}: ${error}`);
+    }
+    return persona;
+  });
+}
@@ -0,0 +1,174 @@
+import { API_ENDPOINTS, OPENROUTER_CONFIG } from "./constants";
+import type { PaymentScheme, X402Pricing } from "./x402";
+
+/**
+ * Pricing of a paid route
+ * Amounts are USD in USDC smallest units (6 decimals), other accepted assets are converted from USD
+ */
+export interface RoutePricing {
+  route: string;
+  scheme: PaymentScheme;
+  /** Price per request (exact) or per 1K tokens (upto) */
+  amount: number;
+  unit: "request" | "1k-tokens";
+  /** Asset the price is denominated in */
+  asset: "USDC";
+  description: string;
+  /** Max amount authorized per request (the cap for upto) */
+  maxAmount: number;
+  /** Minimum charge per request (upto) */
+  minAmount?: number;
+  /** exact: hours of access granted by one payment, via a signed access pass */
+  accessPassHours?: number;
+}
+
+/**
+ * A chat model offered by the AI chat route and its token rates
+ * Rates are USDC smallest units per 1K tokens
+ */
+export interface ChatModelPricing {
+  /** OpenRouter model ID */
+  id: string;
+  name: string;
+  inputRate: number;
+  outputRate: number;
+  /** Max cap authorized per message, before the conversation context */
+  maxAmount: number;
+  /** Completion tokens requested per message (max_tokens), bounds the worst-case cost */
+  maxOutputTokens: number;
+}
+
+// Model catalog for the AI chat, the first model is the default
+export const CHAT_MODELS: readonly ChatModelPricing[] = [
+  {
+    id: OPENROUTER_CONFIG.FREE_MODEL,
+    name: "Devstral",
+    inputRate: 1000, // $0.001 per 1K tokens
+    outputRate: 1000,
+    maxAmount: 500000, // $0.50
+    maxOutputTokens: 1024,
+  },
+  {
+    id: "openai/gpt-4o-mini",
+    name: "GPT-4o mini",
+    inputRate: 500,
+    outputRate: 2000,
+    maxAmount: 500000,
+    maxOutputTokens: 1024,
+  },
+  {
+    id: "anthropic/claude-3.5-haiku",
+    name: "Claude 3.5 Haiku",
+    inputRate: 2000,
+    outputRate: 8000,
+    maxAmount: 1000000, // $1.00
+    maxOutputTokens: 2048,
+  },
+];
+
+export const DEFAULT_CHAT_MODEL = CHAT_MODELS[0];
+
+/**
+ * Find a chat model in the catalog, null if it isn't offered
+ */
+export function getChatModel(id: string): ChatModelPricing | null {
+  return CHAT_MODELS.find(model => model.id === id) ?? null;
+}
+
+/**
+ * Model a chat is billed at: the catalog model that answered, which can differ from the requested
+ * one when a fallback provider answers with its own model; the requested model if the answering
+ * model isn't in the catalog. Callers still cap the charge at the authorized max
+ */
+export function billedChatModel(requested: ChatModelPricing, answeredModel: string): ChatModelPricing {
+  return getChatModel(answeredModel) ?? requested;
+}
+
+/**
+ * Model requested in a chat request body: the default if none, null if it isn't in the catalog
+ */
+export function resolveChatModel(id: unknown): ChatModelPricing | null {
+  if (id === undefined) return DEFAULT_CHAT_MODEL;
+  return typeof id === "string" ? getChatModel(id) : null;
+}
+
+// Single source of truth for prices, read by the paid routes, the UI and GET /api/pricing
+export const ROUTE_PRICING = {
+  BASIC: {
+    route: API_ENDPOINTS.BASIC,
+    scheme: "exact",
+    amount: 10000, // $0.01
+    unit: "request",
+    asset: "USDC",
+    description: "Basic tier content",
+    maxAmount: 10000,
+  },
+  PREMIUM: {
+    route: API_ENDPOINTS.PREMIUM,
+    scheme: "exact",
+    amount: 150000, // $0.15
+    unit: "request",
+    asset: "USDC",
+    description: "Premium tier content, 24 hours of access",
+    maxAmount: 150000,
+    accessPassHours: 24,
+  },
+  AI_CHAT: {
+    route: API_ENDPOINTS.AI_CHAT,
+    scheme: "upto",
+    // Per-model rates and caps are in CHAT_MODELS, these are the lowest rate and highest cap
+    amount: Math.min(...CHAT_MODELS.map(model => Math.min(model.inputRate, model.outputRate))),
+    unit: "1k-tokens",
+    asset: "USDC",
+    description: "AI chat message, charged by token usage",
+    maxAmount: Math.max(...CHAT_MODELS.map(model => model.maxAmount)),
+    minAmount: 1000, // $0.001 x402 protocol minimum
+  },
+  CHAT_COMPLETIONS: {
+    route: API_ENDPOINTS.CHAT_COMPLETIONS,
+    scheme: "upto",
+    // Same models, rates and caps as the AI chat
+    amount: Math.min(...CHAT_MODELS.map(model => Math.min(model.inputRate, model.outputRate))),
+    unit: "1k-tokens",
+    asset: "USDC",
+    description: "OpenAI-compatible chat completion, charged by token usage",
+    maxAmount: Math.max(...CHAT_MODELS.map(model => model.maxAmount)),
+    minAmount: 1000,
+  },
+  AGENT: {
+    route: API_ENDPOINTS.AGENT,
+    scheme: "exact",
+    amount: 20000, // $0.02
+    unit: "request",
+    asset: "USDC",
+    description: "Token price lookup for AI agents",
+    maxAmount: 20000,
+  },
+} as const satisfies Record<string, RoutePricing>;
+
+/**
+ * x402 pricing for withX402: the client authorizes the max amount
+ */
+export function toX402Pricing(pricing: RoutePricing): X402Pricing {
+  return {
+    scheme: pricing.scheme,
+    amount: pricing.maxAmount,
+    description: pricing.description,
+    accessPassSeconds: pricing.accessPassHours ? pricing.accessPassHours * 60 * 60 : undefined,
+  };
+}
+
+/**
+ * Format a USDC amount with as many decimals as it needs, e.g. "$0.001" or "$0.15"
+ */
+export function formatPriceAmount(amount: number): string {
+  return `$${Number((amount / 1_000_000).toFixed(6))}`;
+}
+
+/**
+ * Format a route price for display, e.g. "$0.15" or "$0.001 per 1K tokens"
+ */
+export function formatPrice(pricing: RoutePricing): string {
+  const price = formatPriceAmount(pricing.amount);
+  return pricing.unit === "1k-tokens" ? `${price} per 1K tokens` : price;
+}
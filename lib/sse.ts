@@ -0,0 +1,86 @@
+/**
+ * A server-sent event
+ */
+export interface SSEEvent {
+  /** Event name, "message" when not set */
+  event: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a server-sent event with a JSON payload
+ */
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Encode an unnamed server-sent event, as used by OpenAI-style streams
+ * Strings are sent as-is (e.g. "[DONE]"), anything else as JSON
+ */
+export function encodeSSEData(data: unknown): Uint8Array {
+  return encoder.encode(`data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`);
+}
+
+function parseEvent(block: string): SSEEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    // Lines starting with ":" are comments (keep-alives)
+    if (!line || line.startsWith(":")) continue;
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    if (field === "data") data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+/**
+ * Iterate over a server-sent event stream as events arrive
+ */
+export async function* iterateSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const event = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) yield event;
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+
+    const event = parseEvent(buffer);
+    if (event) yield event;
+  } finally {
+    // Stop reading if the consumer returns early
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read a server-sent event stream, calling onEvent for each event as it arrives
+ * Resolves when the stream ends
+ */
+export async function readSSE(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SSEEvent) => void
+): Promise<void> {
+  for await (const event of iterateSSE(body)) {
+    onEvent(event);
+  }
+}
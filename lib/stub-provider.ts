@@ -0,0 +1,109 @@
+import { LLMProviderError } from "./llm-provider";
+import type { ChatCompletionRequest, ChatCompletionUsage, LLMErrorCode, LLMProvider, ToolCall } from "./llm-provider";
+import { estimateTokens } from "./token-pricing";
+
+const NAME = "stub";
+
+// "[stub:error:rate_limit]" in the last user message makes the stub fail with that code
+const ERROR_TRIGGER = /\[stub:error:([a-z_]+)\]/;
+
+interface StubReply {
+  words: string[];
+  toolCalls: ToolCall[];
+  finishReason: string;
+}
+
+/**
+ * Tool the stub calls: the named tool choice, else the first tool
+ * Only when the last message is the user's, so a tool result gets a text reply
+ */
+function stubToolCall(request: ChatCompletionRequest): ToolCall | null {
+  const last = request.messages[request.messages.length - 1];
+  if (!request.tools?.length || request.toolChoice === "none" || last?.role !== "user") return null;
+
+  const name = typeof request.toolChoice === "object"
+    ? request.toolChoice.function.name
+    : request.tools[0].function.name;
+  return {
+    id: `call_stub_${request.messages.length}`,
+    type: "function",
+    function: { name, arguments: "{}" },
+  };
+}
+
+/**
+ * Deterministic reply to the last user or tool message, split into words
+ * Stops at maxTokens (estimated), like a real model hitting max_tokens
+ */
+function stubReply(request: ChatCompletionRequest): StubReply {
+  const last = [...request.messages].reverse().find(m => m.role === "user" || m.role === "tool");
+  const prompt = last?.content?.trim() || "";
+
+  const trigger = last?.role === "user" ? prompt.match(ERROR_TRIGGER) : null;
+  if (trigger) {
+    throw new LLMProviderError(trigger[1] as LLMErrorCode, NAME, `Stub error triggered: ${trigger[1]}`);
+  }
+
+  const toolCall = stubToolCall(request);
+  if (toolCall) {
+    return { words: [], toolCalls: [toolCall], finishReason: "tool_calls" };
+  }
+
+  const reply = last?.role === "tool"
+    ? `Stub reply from ${request.model} with the tool result: ${prompt}`
+    : `Stub reply from ${request.model} to ${request.messages.length} message(s). You said: ${prompt}`;
+  const words = reply.split(/(?<=\s)/);
+  const maxTokens = request.maxTokens ?? Infinity;
+
+  const bounded: string[] = [];
+  for (const word of words) {
+    if (estimateTokens(bounded.join("") + word) > maxTokens) break;
+    bounded.push(word);
+  }
+  return { words: bounded, toolCalls: [], finishReason: bounded.length < words.length ? "length" : "stop" };
+}
+
+function usageFor(request: ChatCompletionRequest, reply: StubReply): ChatCompletionUsage {
+  const inputTokens = request.messages.reduce((sum, m) => sum + estimateTokens(m.content ?? ""), 0);
+  const outputTokens = estimateTokens(reply.words.join("")) +
+    reply.toolCalls.reduce((sum, call) => sum + estimateTokens(call.function.name + call.function.arguments), 0);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * Offline provider with deterministic replies, tool calls and usage
+ * Lets the paid chat flow run without network access (pair with the local facilitator)
+ */
+export function stubProvider(): LLMProvider {
+  return {
+    name: NAME,
+
+    async complete(request) {
+      if (request.signal?.aborted) throw new LLMProviderError("aborted", NAME, "Request was aborted");
+      const reply = stubReply(request);
+      return {
+        content: reply.words.join(""),
+        toolCalls: reply.toolCalls,
+        finishReason: reply.finishReason,
+        usage: usageFor(request, reply),
+        provider: NAME,
+        model: request.model,
+      };
+    },
+
+    async *stream(request) {
+      const reply = stubReply(request);
+      yield { type: "start", provider: NAME, model: request.model };
+
+      for (const word of reply.words) {
+        if (request.signal?.aborted) return;
+        yield { type: "delta", content: word };
+      }
+      for (const [index, call] of reply.toolCalls.entries()) {
+        yield { type: "tool_call", index, id: call.id, name: call.function.name, arguments: call.function.arguments };
+      }
+      yield { type: "finish", reason: reply.finishReason };
+      yield { type: "usage", usage: usageFor(request, reply) };
+    },
+  };
+}
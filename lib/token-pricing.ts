@@ -1,24 +1,93 @@
 import { TOKEN_PRICING } from "./constants";
+import { ROUTE_PRICING, DEFAULT_CHAT_MODEL } from "./pricing";
+import type { ChatModelPricing } from "./pricing";
 
 /**
  * Estimate token count from text (rough approximation)
  * Rule of thumb: ~4 characters per token for English text
+ * Billing uses the model's BPE tokenizer (lib/tokenizer.ts), this is the last resort
  */
 export function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
 }
 
 /**
- * Calculate USDC cost from token count
- * Rate: $0.001 per 1000 tokens
- * Minimum: $0.001 (1000 USDC units) - x402 protocol minimum
+ * Calculate USDC cost of prompt tokens at the model's input rate, without the minimum charge
+ */
+export function calculateInputCost(inputTokens: number, model: ChatModelPricing = DEFAULT_CHAT_MODEL): number {
+  return Math.ceil((inputTokens / 1000) * model.inputRate);
+}
+
+/**
+ * Itemized cost of a chat message, amounts in USDC smallest units (6 decimals)
+ * total = promptCost + completionCost + minimumAdjustment + capAdjustment
+ */
+export interface CostItemization {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Rates per 1K tokens */
+  inputRate: number;
+  outputRate: number;
+  /** Prompt tokens × input rate */
+  promptCost: number;
+  /** Completion tokens × output rate */
+  completionCost: number;
+  /** Added to reach the x402 protocol minimum charge */
+  minimumAdjustment: number;
+  /** Max cap authorized for the message, null if none applied */
+  cap: number | null;
+  /** Removed to stay within the cap (zero or negative) */
+  capAdjustment: number;
+  total: number;
+}
+
+/**
+ * Itemize the cost of a message from its token counts
+ * Prompt and completion tokens are priced separately at the model's input and output rates (each rounded up),
+ * then raised to the minimum charge from the AI chat route pricing and lowered to the cap if one is given
+ */
+export function itemizeTokenCost(
+  inputTokens: number,
+  outputTokens: number,
+  model: ChatModelPricing = DEFAULT_CHAT_MODEL,
+  cap?: number
+): CostItemization {
+  // tokens / 1000 * rate per 1K tokens
+  const promptCost = calculateInputCost(inputTokens, model);
+  const completionCost = Math.ceil((outputTokens / 1000) * model.outputRate);
+  const subtotal = promptCost + completionCost;
+
+  // Minimum charge - x402 protocol requirement
+  const minimumAdjustment = Math.max(ROUTE_PRICING.AI_CHAT.minAmount - subtotal, 0);
+  const beforeCap = subtotal + minimumAdjustment;
+  const capAdjustment = cap !== undefined ? Math.min(cap - beforeCap, 0) : 0;
+
+  return {
+    model: model.id,
+    promptTokens: inputTokens,
+    completionTokens: outputTokens,
+    inputRate: model.inputRate,
+    outputRate: model.outputRate,
+    promptCost,
+    completionCost,
+    minimumAdjustment,
+    cap: cap ?? null,
+    capAdjustment,
+    total: beforeCap + capAdjustment,
+  };
+}
+
+/**
+ * Calculate USDC cost from token counts, with the minimum charge
  * Returns amount in USDC smallest units (6 decimals)
  */
-export function calculateTokenCost(tokens: number): number {
-  // tokens / 1000 * RATE_PER_1K_TOKENS
-  const cost = Math.ceil((tokens / 1000) * TOKEN_PRICING.RATE_PER_1K_TOKENS);
-  // Minimum $0.001 (1000 units) - x402 protocol requirement
-  return Math.max(cost, 1000);
+export function calculateTokenCost(
+  inputTokens: number,
+  outputTokens: number,
+  model: ChatModelPricing = DEFAULT_CHAT_MODEL
+): number {
+  return itemizeTokenCost(inputTokens, outputTokens, model).total;
 }
 
 /**
@@ -49,18 +118,20 @@ export function calculateChatCost(inputText: string, outputText: string): {
   totalTokens: number;
   costInUSDC: number;
   formattedCost: string;
+  itemization: CostItemization;
 } {
   const inputTokens = estimateTokens(inputText);
   const outputTokens = estimateTokens(outputText);
   const totalTokens = inputTokens + outputTokens;
-  const costInUSDC = calculateTokenCost(totalTokens);
+  const itemization = itemizeTokenCost(inputTokens, outputTokens);
 
   return {
     inputTokens,
     outputTokens,
     totalTokens,
-    costInUSDC,
-    formattedCost: formatUSDCShort(costInUSDC),
+    costInUSDC: itemization.total,
+    formattedCost: formatUSDCShort(itemization.total),
+    itemization,
   };
 }
 
@@ -0,0 +1,85 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import type { TiktokenBPE } from "js-tiktoken/lite";
+import { estimateTokens } from "./token-pricing";
+
+type Encoding = "o200k_base" | "cl100k_base";
+
+/**
+ * Token counter for a model, with the tokenizer it uses
+ */
+export interface TokenCounter {
+  /** BPE encoding name, or "heuristic" for the ~4 characters per token fallback */
+  name: Encoding | "heuristic";
+  /** False when the encoding approximates a model family without a published tokenizer */
+  exact: boolean;
+  count: (text: string) => number;
+}
+
+interface FamilyTokenizer {
+  /** OpenRouter model ID prefix */
+  prefix: string;
+  encoding: Encoding;
+  exact: boolean;
+}
+
+// First matching prefix wins
+const MODEL_FAMILIES: FamilyTokenizer[] = [
+  { prefix: "openai/gpt-4o", encoding: "o200k_base", exact: true },
+  { prefix: "openai/gpt-4.1", encoding: "o200k_base", exact: true },
+  { prefix: "openai/gpt-5", encoding: "o200k_base", exact: true },
+  { prefix: "openai/o", encoding: "o200k_base", exact: true },
+  { prefix: "openai/", encoding: "cl100k_base", exact: true },
+  // Mistral's Tekken tokenizer is tiktoken-based with a ~131K multilingual vocabulary, closest to o200k_base
+  { prefix: "mistralai/", encoding: "o200k_base", exact: false },
+  // Llama 3 extends cl100k_base with 28K extra tokens
+  { prefix: "meta-llama/", encoding: "cl100k_base", exact: false },
+  // Claude's tokenizer is not published, cl100k_base is the closest public BPE
+  { prefix: "anthropic/", encoding: "cl100k_base", exact: false },
+];
+
+const encoders = new Map<Encoding, Tiktoken>();
+
+async function loadRanks(encoding: Encoding): Promise<TiktokenBPE> {
+  // Loaded on demand, the rank files are several MB each
+  const ranks = encoding === "o200k_base"
+    ? await import("js-tiktoken/ranks/o200k_base")
+    : await import("js-tiktoken/ranks/cl100k_base");
+  return ranks.default;
+}
+
+async function getEncoder(encoding: Encoding): Promise<Tiktoken> {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(await loadRanks(encoding));
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+const heuristicCounter: TokenCounter = {
+  name: "heuristic",
+  exact: false,
+  count: estimateTokens,
+};
+
+/**
+ * Get the token counter for a model, selected by model family
+ * Falls back to the character heuristic for unknown families or if the encoding fails to load
+ */
+export async function getTokenCounter(modelId: string): Promise<TokenCounter> {
+  const family = MODEL_FAMILIES.find(f => modelId.startsWith(f.prefix));
+  if (!family) return heuristicCounter;
+
+  try {
+    const encoder = await getEncoder(family.encoding);
+    return {
+      name: family.encoding,
+      exact: family.exact,
+      // Special token strings in user text are counted as plain text
+      count: (text) => encoder.encode(text, [], []).length,
+    };
+  } catch (error) {
+    console.error(`Failed to load ${family.encoding} tokenizer, using heuristic:`, error);
+    return heuristicCounter;
+  }
+}
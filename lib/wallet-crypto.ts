@@ -0,0 +1,97 @@
+import { WALLET_ENCRYPTION } from "./constants";
+
+/**
+ * A secret encrypted with AES-256-GCM under a PBKDF2-HMAC-SHA256 key
+ * Binary fields are base64
+ */
+export interface EncryptedSecret {
+  cipher: "AES-GCM";
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export class DecryptionError extends Error {
+  constructor(message = "Wrong passphrase or signature") {
+    super(message);
+    this.name = "DecryptionError";
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+async function deriveKey(secret: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Encrypt a secret (e.g. a private key) with a passphrase or wallet signature
+ * Every call uses a fresh random salt and IV
+ */
+export async function encryptSecret(plaintext: string, secret: string): Promise<EncryptedSecret> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const iterations = WALLET_ENCRYPTION.PBKDF2_ITERATIONS;
+
+  const key = await deriveKey(secret, salt, iterations);
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+
+  return {
+    cipher: "AES-GCM",
+    kdf: "PBKDF2-SHA256",
+    iterations,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a secret, throws DecryptionError if the passphrase or signature is wrong
+ * (the GCM tag doesn't verify)
+ */
+export async function decryptSecret(encrypted: EncryptedSecret, secret: string): Promise<string> {
+  const key = await deriveKey(secret, fromBase64(encrypted.salt), encrypted.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(encrypted.iv) },
+      key,
+      fromBase64(encrypted.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new DecryptionError();
+  }
+}
+
+/**
+ * Decrypt the legacy format: a repeating-key XOR keyed by the user's wallet address
+ * Only used to migrate wallets stored before encryption was added
+ */
+export function decryptLegacySecret(encryptedText: string, password: string): string {
+  const key = new TextEncoder().encode(password.padEnd(32, "0").slice(0, 32));
+  const encrypted = fromBase64(encryptedText);
+  const decrypted = encrypted.map((byte, i) => byte ^ key[i % key.length]);
+  return new TextDecoder().decode(decrypted);
+}
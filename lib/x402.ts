@@ -0,0 +1,346 @@
+import { settlePayment, verifyPayment, decodePayment } from "thirdweb/x402";
+import type { PaymentArgs, PaymentRequiredResult, SettlePaymentResult, VerifyPaymentResult } from "thirdweb/x402";
+import { getFacilitator } from "./facilitator";
+import { recordPayment } from "./payment-ledger";
+import {
+  issueAccessPass,
+  verifyAccessPass,
+  ACCESS_PASS_HEADER,
+  ACCESS_PASS_RESPONSE_HEADER,
+  ACCESS_PASS_SIGNATURE_HEADER,
+  ACCESS_PASS_TIMESTAMP_HEADER,
+} from "./access-pass";
+import type { AccessPass } from "./access-pass";
+import { getPaymentOptions, convertUsdAmount } from "./payment-options";
+import type { PaymentOption } from "./payment-options";
+import type { CostItemization } from "./token-pricing";
+
+export type PaymentScheme = "exact" | "upto";
+
+export type PaymentReceipt = Extract<SettlePaymentResult, { status: 200 }>["paymentReceipt"];
+
+type Amount = string | number;
+
+/**
+ * Pricing for a paid route
+ * - exact: the amount is charged after the handler returns a successful response
+ * - upto: the amount is the max cap, the handler settles the actual amount
+ */
+export interface X402Pricing {
+  scheme?: PaymentScheme;
+  /** USD amount in USDC smallest units (6 decimals), fixed or computed from the request
+   *  Converted into each accepted asset's units in the 402 response */
+  amount: Amount | ((request: Request) => Amount | Promise<Amount>);
+  /** Description advertised in the payment requirements */
+  description?: string;
+  /** exact: issue an access pass valid for this many seconds after settlement */
+  accessPassSeconds?: number;
+}
+
+/**
+ * Payment context passed to a paid route handler
+ */
+export interface PaymentContext {
+  scheme: PaymentScheme;
+  resourceUrl: string;
+  /** USD amount advertised in the 402 response (the max cap for upto), USDC units */
+  amount: string;
+  /** Payment option (asset and network) the client signed */
+  option: PaymentOption | null;
+  /** Address that signed the payment authorization */
+  payer: string | null;
+  /** Receipt of the settled payment, set once payment.settle() succeeds */
+  receipt: PaymentReceipt | null;
+  /** Access pass the request was made with, instead of a payment */
+  accessPass: AccessPass | null;
+  /** Settle the payment for the final USD amount (upto), converted into the signed asset
+   *  The itemization of a token-priced amount is stored in the ledger with it */
+  settle: (amount: Amount, itemization?: CostItemization) => Promise<SettlePaymentResult>;
+}
+
+export type PaidRouteHandler = (
+  request: Request,
+  payment: PaymentContext
+) => Promise<Response>;
+
+async function resolveAmount(pricing: X402Pricing, request: Request): Promise<string> {
+  const amount = typeof pricing.amount === "function"
+    ? await pricing.amount(request)
+    : pricing.amount;
+  return String(amount);
+}
+
+function paymentArgs(
+  request: Request,
+  paymentData: string | null,
+  scheme: PaymentScheme,
+  option: PaymentOption,
+  amount: string,
+  description?: string
+): PaymentArgs {
+  return {
+    resourceUrl: new URL(request.url).href,
+    method: request.method,
+    paymentData,
+    payTo: process.env.MERCHANT_WALLET_ADDRESS!,
+    network: option.network.chain,
+    scheme,
+    price: {
+      amount: convertUsdAmount(amount, option.asset),
+      asset: {
+        address: option.asset.address,
+        decimals: option.asset.decimals,
+        eip712: {
+          ...option.asset.eip712,
+          primaryType: "TransferWithAuthorization",
+        },
+      },
+    },
+    routeConfig: description ? { description } : undefined,
+    facilitator: getFacilitator(),
+  };
+}
+
+/**
+ * Build the 402 response listing every accepted payment option
+ */
+async function requirePayment(
+  request: Request,
+  scheme: PaymentScheme,
+  amount: string,
+  description?: string
+): Promise<PaymentRequiredResult | null> {
+  const results = await Promise.all(
+    getPaymentOptions().map(option => settlePayment(paymentArgs(request, null, scheme, option, amount, description)))
+  );
+  const required = results.filter((result): result is PaymentRequiredResult => result.status !== 200);
+  if (required.length === 0) return null;
+
+  return {
+    ...required[0],
+    responseBody: {
+      ...required[0].responseBody,
+      accepts: required.flatMap(result => result.responseBody.accepts),
+    },
+  };
+}
+
+/**
+ * Payment options on the network the client signed for
+ * The x402 payload carries no asset, so options on the same network are told apart by verification
+ */
+function candidateOptions(paymentData: string): PaymentOption[] {
+  const options = getPaymentOptions();
+  try {
+    const { network } = decodePayment(paymentData);
+    const matching = options.filter(option =>
+      network === option.networkId || network === `eip155:${option.network.chain.id}`
+    );
+    return matching.length > 0 ? matching : options;
+  } catch {
+    // Let verification report the malformed payment
+    return options;
+  }
+}
+
+/**
+ * Verify the payment authorization without settling it
+ * Checks signature, amount, payer balance and validity window against each candidate option
+ */
+async function verifyRequest(
+  request: Request,
+  paymentData: string,
+  scheme: PaymentScheme,
+  amount: string,
+  description?: string
+): Promise<{ option: PaymentOption | null; result: VerifyPaymentResult }> {
+  let failure: VerifyPaymentResult | null = null;
+  for (const option of candidateOptions(paymentData)) {
+    const result = await verifyPayment(paymentArgs(request, paymentData, scheme, option, amount, description));
+    if (result.status === 200) {
+      return { option, result };
+    }
+    failure = failure ?? result;
+  }
+  return { option: null, result: failure! };
+}
+
+/**
+ * Record a settled payment (amount in base units of the signed asset) in the ledger
+ * A ledger failure is logged but never fails the already settled request
+ */
+async function recordSettlement(
+  request: Request,
+  payment: PaymentContext,
+  amount: string,
+  itemization?: CostItemization
+): Promise<void> {
+  try {
+    await recordPayment({
+      route: new URL(request.url).pathname,
+      payer: payment.payer,
+      amount,
+      asset: payment.option?.asset.symbol ?? "",
+      scheme: payment.scheme,
+      txHash: payment.receipt?.transaction ?? "",
+      network: payment.receipt?.network ?? "",
+      resourceUrl: payment.resourceUrl,
+      itemization,
+    });
+  } catch (error) {
+    console.error("Failed to record payment in ledger:", error);
+  }
+}
+
+/**
+ * Build the 402 response for a failed or missing payment
+ */
+export function paymentRequiredResponse(result: PaymentRequiredResult): Response {
+  return Response.json(result.responseBody, {
+    status: result.status,
+    headers: result.responseHeaders,
+  });
+}
+
+/**
+ * Attach the settlement headers (X-PAYMENT-RESPONSE) to the handler response
+ */
+function withPaymentHeaders(response: Response, headers: Record<string, string>): Response {
+  const merged = new Headers(response.headers);
+  for (const [key, value] of Object.entries(headers)) {
+    merged.set(key, value);
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: merged,
+  });
+}
+
+/**
+ * Wrap a route handler with the x402 payment flow
+ *
+ * 0. Valid access pass signed for by its payer (accessPassSeconds routes): serve without payment
+ * 1. No x-payment header: return 402 with the requirements of every accepted asset/network
+ * 2. Verify the authorization (signature, amount, balance, expiry) and find the signed option
+ * 3. Run the handler
+ * 4. exact: settle the full amount if the handler succeeded, so failed requests are not charged
+ *    upto: the handler settles the actual amount via payment.settle()
+ *    With accessPassSeconds, a settled exact payment also returns an access pass
+ */
+export function withX402(handler: PaidRouteHandler, pricing: X402Pricing) {
+  const scheme = pricing.scheme ?? "exact";
+
+  return async (request: Request): Promise<Response> => {
+    try {
+      const paymentData = request.headers.get("x-payment");
+      const amount = await resolveAmount(pricing, request);
+
+      // STEP 0: A valid access pass replaces the payment
+      const passToken = pricing.accessPassSeconds ? request.headers.get(ACCESS_PASS_HEADER) : null;
+      const passSignature = request.headers.get(ACCESS_PASS_SIGNATURE_HEADER);
+      const accessPass = passToken
+        ? await verifyAccessPass(
+          passToken,
+          new URL(request.url).pathname,
+          passSignature
+            ? { signature: passSignature, timestamp: Number(request.headers.get(ACCESS_PASS_TIMESTAMP_HEADER)) }
+            : null
+        )
+        : null;
+      if (accessPass) {
+        return handler(request, {
+          scheme,
+          resourceUrl: new URL(request.url).href,
+          amount,
+          option: null,
+          payer: accessPass.payer,
+          receipt: null,
+          accessPass,
+          settle: async () => {
+            throw new Error("Requests made with an access pass are not settled");
+          },
+        });
+      }
+
+      // STEP 1: No payment, return 402 to trigger the x402 flow
+      if (!paymentData) {
+        const result = await requirePayment(request, scheme, amount, pricing.description);
+        if (result) {
+          return paymentRequiredResponse(result);
+        }
+        // No payment data always means 402, but handle it
+        return Response.json({ error: "Unexpected state" }, { status: 500 });
+      }
+
+      const settlement: { headers: Record<string, string> | null } = { headers: null };
+      const payment: PaymentContext = {
+        scheme,
+        resourceUrl: new URL(request.url).href,
+        amount,
+        option: null,
+        payer: null,
+        receipt: null,
+        accessPass: null,
+        settle: async (finalAmount, itemization) => {
+          const option = payment.option!;
+          const result = await settlePayment(
+            paymentArgs(request, paymentData, scheme, option, String(finalAmount), pricing.description)
+          );
+          if (result.status === 200) {
+            payment.receipt = result.paymentReceipt;
+            payment.payer = result.paymentReceipt.payer ?? payment.payer;
+            settlement.headers = result.responseHeaders;
+            await recordSettlement(request, payment, convertUsdAmount(finalAmount, option.asset), itemization);
+          }
+          return result;
+        },
+      };
+
+      // STEP 2: Verify the authorization before any work or upstream cost is incurred
+      // (for upto, the authorization must cover the max cap)
+      const { option, result: verification } = await verifyRequest(request, paymentData, scheme, amount, pricing.description);
+      if (verification.status !== 200) {
+        console.error("Payment verification failed:", verification.responseBody);
+        return paymentRequiredResponse(verification);
+      }
+      payment.option = option;
+      const { payload } = verification.decodedPayment;
+      payment.payer = "authorization" in payload ? payload.authorization.from : null;
+
+      // STEP 3: Serve the resource
+      const response = await handler(request, payment);
+
+      // STEP 4: exact scheme settles the full amount only if the resource was served
+      if (scheme === "exact" && response.ok) {
+        const result = await payment.settle(amount);
+        if (result.status !== 200) {
+          // Settlement failed: withhold the resource
+          console.error("Payment settlement failed:", result.responseBody);
+          return paymentRequiredResponse(result);
+        }
+
+        if (pricing.accessPassSeconds && payment.payer) {
+          const { token, pass } = issueAccessPass(
+            new URL(request.url).pathname,
+            payment.payer,
+            pricing.accessPassSeconds
+          );
+          settlement.headers = {
+            ...settlement.headers,
+            [ACCESS_PASS_RESPONSE_HEADER]: token,
+            [`${ACCESS_PASS_RESPONSE_HEADER}-EXPIRES`]: new Date(pass.expiresAt * 1000).toISOString(),
+          };
+        }
+      }
+
+      return settlement.headers ? withPaymentHeaders(response, settlement.headers) : response;
+    } catch (error) {
+      console.error("x402 route error:", error);
+      return Response.json(
+        { error: error instanceof Error ? error.message : "Unknown error" },
+        { status: 500 }
+      );
+    }
+  };
+}